@@ -18,6 +18,13 @@ const extensionConfig = {
 	target: "node18",
 };
 
+// Detached PTY host (Node.js, CommonJS) - persistent sessions
+const ptyHostConfig = {
+	...extensionConfig,
+	entryPoints: ["src/pty-host.ts"],
+	outfile: "out/pty-host.js",
+};
+
 // Webview bundle (browser, IIFE) - Editor terminals
 const webviewConfig = {
 	entryPoints: ["src/webview/main.ts"],
@@ -54,6 +61,16 @@ async function build() {
 			console.log("[esbuild] Extension built.");
 		}
 
+		// Build PTY host
+		if (isWatch) {
+			const ptyHostCtx = await esbuild.context(ptyHostConfig);
+			await ptyHostCtx.watch();
+			console.log("[esbuild] Watching PTY host...");
+		} else {
+			await esbuild.build(ptyHostConfig);
+			console.log("[esbuild] PTY host built.");
+		}
+
 		// Build webview (if entry exists)
 		const webviewEntry = path.join(process.cwd(), "src/webview/main.ts");
 		if (fs.existsSync(webviewEntry)) {
@@ -0,0 +1,58 @@
+# BooTTY shell integration for bash
+# Loaded via `bash --init-file`; emits OSC 133 prompt marks so BooTTY can
+# track commands, exit codes and prompt positions.
+
+# --init-file replaces the user's startup files, so load them first: the
+# login files for login shells (BooTTY drops --login, which would skip
+# --init-file), else ~/.bashrc
+if [ -z "$BOOTTY_SHELL_INTEGRATION_LOADED" ]; then
+	if [ -n "$BOOTTY_SHELL_LOGIN" ]; then
+		unset BOOTTY_SHELL_LOGIN
+		if [ -r /etc/profile ]; then
+			. /etc/profile
+		fi
+		for __bootty_profile in ~/.bash_profile ~/.bash_login ~/.profile; do
+			if [ -r "$__bootty_profile" ]; then
+				. "$__bootty_profile"
+				break
+			fi
+		done
+		unset __bootty_profile
+	elif [ -r ~/.bashrc ]; then
+		. ~/.bashrc
+	fi
+fi
+
+# Skip if already loaded (nested shells) or not interactive
+if [ -n "$BOOTTY_SHELL_INTEGRATION_LOADED" ] || [[ $- != *i* ]]; then
+	return 0 2>/dev/null || true
+fi
+BOOTTY_SHELL_INTEGRATION_LOADED=1
+
+__bootty_last_status=0
+__bootty_prompt_shown=
+
+# Capture the command's exit status without clobbering $? for the user's PROMPT_COMMAND
+__bootty_capture_status() {
+	__bootty_last_status=$?
+	return $__bootty_last_status
+}
+
+__bootty_precmd() {
+	# D: previous command finished (shells emit one per prompt after the first)
+	if [ -n "$__bootty_prompt_shown" ]; then
+		printf '\e]133;D;%s\a' "$__bootty_last_status"
+	fi
+	__bootty_prompt_shown=1
+
+	# A/B around the prompt; re-applied in case the user's PROMPT_COMMAND rewrote PS1
+	if [[ "$PS1" != *'133;A'* ]]; then
+		PS1='\[\e]133;A\a\]'"$PS1"'\[\e]133;B\a\]'
+	fi
+	return $__bootty_last_status
+}
+
+# C: command output starts (PS0 is printed after Enter, before execution; bash 4.4+)
+PS0="${PS0}"$'\e]133;C\a'
+
+PROMPT_COMMAND="__bootty_capture_status;${PROMPT_COMMAND:+${PROMPT_COMMAND%;};}__bootty_precmd"
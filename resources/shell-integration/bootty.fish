@@ -0,0 +1,30 @@
+# BooTTY shell integration for fish
+# Loaded via `fish --init-command`; emits OSC 133 prompt marks so BooTTY can
+# track commands, exit codes and prompt positions.
+
+status is-interactive; or exit
+set -q BOOTTY_SHELL_INTEGRATION_LOADED; and exit
+set -g BOOTTY_SHELL_INTEGRATION_LOADED 1
+
+# C: command output starts
+function __bootty_preexec --on-event fish_preexec
+    printf '\e]133;C\a'
+end
+
+# D: command finished with its exit status
+function __bootty_postexec --on-event fish_postexec
+    printf '\e]133;D;%s\a' $status
+end
+
+# A/B around the prompt. Wrap fish_prompt lazily so user config (loaded after
+# --init-command) can define its own prompt first.
+function __bootty_wrap_prompt --on-event fish_prompt
+    functions -e __bootty_wrap_prompt
+    functions -q fish_prompt; or return
+    functions -c fish_prompt __bootty_original_fish_prompt
+    function fish_prompt
+        printf '\e]133;A\a'
+        __bootty_original_fish_prompt
+        printf '\e]133;B\a'
+    end
+end
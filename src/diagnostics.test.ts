@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { type DiagnosticsInfo, formatDiagnosticsReport } from "./diagnostics";
+
+function createInfo(overrides: Partial<DiagnosticsInfo> = {}): DiagnosticsInfo {
+	return {
+		versions: [
+			["BooTTY", "0.3.0"],
+			["ghostty-web", undefined],
+		],
+		settings: [["bootty.persistentSessions", true]],
+		terminals: [],
+		wasmLoads: [],
+		recentErrors: [],
+		...overrides,
+	};
+}
+
+describe("diagnostics", () => {
+	it("lists versions and settings", () => {
+		const report = formatDiagnosticsReport(createInfo());
+		expect(report).toContain("| BooTTY | 0.3.0 |");
+		expect(report).toContain("| ghostty-web | unknown |");
+		expect(report).toContain("- `bootty.persistentSessions`: `true`");
+		expect(report).toContain("## Terminals\n\nNone open.");
+		expect(report).toContain("## Recent Errors\n\nNone since activation.\n");
+	});
+
+	it("describes terminals with their launch and env names only", () => {
+		const report = formatDiagnosticsReport(
+			createInfo({
+				terminals: [
+					{
+						title: "zsh",
+						location: "panel",
+						backend: "pty",
+						ready: true,
+						launch: {
+							shell: "/bin/zsh",
+							args: ["-l"],
+							cwd: "/home/me",
+							envKeys: ["HOME", "PATH"],
+						},
+					},
+					{
+						title: "Build",
+						location: "editor",
+						ready: false,
+						exitCode: 1,
+					},
+				],
+			}),
+		);
+		expect(report).toContain(
+			[
+				"### zsh",
+				"",
+				"- Location: panel",
+				"- Backend: pty",
+				"- State: ready",
+				"- Shell: `/bin/zsh -l`",
+				"- Cwd: `/home/me`",
+				"- Environment (2 variables): HOME, PATH",
+			].join("\n"),
+		);
+		expect(report).toContain(
+			"### Build\n\n- Location: editor\n- State: exited (code 1)\n",
+		);
+	});
+
+	it("tabulates WASM loads and quotes recent errors", () => {
+		const report = formatDiagnosticsReport(
+			createInfo({
+				wasmLoads: [
+					{
+						time: "2026-01-01T00:00:00.000Z",
+						webview: "panel",
+						loadTimeMs: 120,
+						attempts: 2,
+					},
+				],
+				recentErrors: ["2026-01-01T00:00:01.000Z [warn] Fit error: boom"],
+			}),
+		);
+		expect(report).toContain(
+			"| 2026-01-01T00:00:00.000Z | panel | 120 ms | 2 |",
+		);
+		expect(report).toContain(
+			"```text\n2026-01-01T00:00:01.000Z [warn] Fit error: boom\n```\n",
+		);
+	});
+});
@@ -0,0 +1,132 @@
+/**
+ * Report for "BooTTY: Collect Diagnostics" (Markdown, for bug reports)
+ * Environment variable names are listed but never their values.
+ * Extracted for testability (no VS Code dependencies)
+ */
+
+import type { TerminalLocation } from "./types/terminal";
+
+/** How a terminal's shell was launched */
+export interface LaunchDiagnostics {
+	shell: string;
+	args: string[];
+	cwd: string;
+	envKeys: string[]; // Sorted names only
+}
+
+/** One terminal's state */
+export interface TerminalDiagnostics {
+	title: string;
+	location: TerminalLocation;
+	backend?: "pty" | "pty host" | "pseudoterminal"; // Unset once the process is gone
+	ready: boolean;
+	exitCode?: number;
+	launch?: LaunchDiagnostics;
+}
+
+/** One ghostty-web WASM load reported by a webview */
+export interface WasmLoadDiagnostics {
+	time: string; // ISO timestamp
+	webview: "editor" | "panel";
+	loadTimeMs: number;
+	attempts: number;
+}
+
+/** Everything in a diagnostics report */
+export interface DiagnosticsInfo {
+	versions: Array<[name: string, version: string | undefined]>;
+	settings: Array<[name: string, value: unknown]>;
+	terminals: TerminalDiagnostics[];
+	wasmLoads: WasmLoadDiagnostics[];
+	recentErrors: readonly string[];
+}
+
+/** Inline code span that survives backticks in the text */
+function code(text: string): string {
+	const fence = text.includes("`") ? "``" : "`";
+	return `${fence}${text}${fence}`;
+}
+
+function formatState(terminal: TerminalDiagnostics): string {
+	if (terminal.exitCode !== undefined) {
+		return `exited (code ${terminal.exitCode})`;
+	}
+	return terminal.ready ? "ready" : "waiting for webview";
+}
+
+function formatTerminal(terminal: TerminalDiagnostics): string[] {
+	const lines = [
+		`### ${terminal.title}`,
+		"",
+		`- Location: ${terminal.location}`,
+	];
+	if (terminal.backend) lines.push(`- Backend: ${terminal.backend}`);
+	lines.push(`- State: ${formatState(terminal)}`);
+	const launch = terminal.launch;
+	if (launch) {
+		lines.push(
+			`- Shell: ${code([launch.shell, ...launch.args].join(" "))}`,
+			`- Cwd: ${code(launch.cwd)}`,
+			`- Environment (${launch.envKeys.length} variables): ${launch.envKeys.join(", ") || "none"}`,
+		);
+	}
+	lines.push("");
+	return lines;
+}
+
+/** Format a diagnostics report as Markdown */
+export function formatDiagnosticsReport(info: DiagnosticsInfo): string {
+	const lines = [
+		"# BooTTY Diagnostics",
+		"",
+		"Review before sharing: paths may include your user name. Environment variable values are never included.",
+		"",
+		"## Versions",
+		"",
+		"| Component | Version |",
+		"| --- | --- |",
+		...info.versions.map(
+			([name, version]) => `| ${name} | ${version ?? "unknown"} |`,
+		),
+		"",
+		"## Settings",
+		"",
+		...info.settings.map(
+			([name, value]) => `- ${code(name)}: ${code(JSON.stringify(value))}`,
+		),
+		"",
+		"## Terminals",
+		"",
+	];
+
+	if (info.terminals.length === 0) {
+		lines.push("None open.", "");
+	}
+	for (const terminal of info.terminals) {
+		lines.push(...formatTerminal(terminal));
+	}
+
+	lines.push("## WASM Loads", "");
+	if (info.wasmLoads.length === 0) {
+		lines.push("None since activation.", "");
+	} else {
+		lines.push(
+			"| Time | Webview | Load time | Attempts |",
+			"| --- | --- | --- | --- |",
+			...info.wasmLoads.map(
+				(load) =>
+					`| ${load.time} | ${load.webview} | ${load.loadTimeMs} ms | ${load.attempts} |`,
+			),
+			"",
+		);
+	}
+
+	lines.push("## Recent Errors", "");
+	if (info.recentErrors.length === 0) {
+		lines.push("None since activation.");
+	} else {
+		lines.push("```text", ...info.recentErrors, "```");
+	}
+
+	return `${lines.join("\n")}\n`;
+}
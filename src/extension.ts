@@ -1,13 +1,26 @@
 import * as fs from "node:fs";
+import * as os from "node:os";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import { formatDiagnosticsReport } from "./diagnostics";
+import { disposeLog, getRecentErrors, log } from "./logger";
 import { BooTTYPanelViewProvider } from "./panel-view-provider";
+import { connectPtyHost, type PtyHostClient } from "./pty-host-client";
+import { BooTTYTaskProvider } from "./task-provider";
 import { TerminalManager } from "./terminal-manager";
+import { expandProfileCwd, parseProfiles } from "./terminal-profiles";
 import {
 	TerminalTreeDataProvider,
 	type TerminalTreeItem,
 } from "./terminal-tree-provider";
-import type { TerminalId, TerminalLocation } from "./types/terminal";
+import type { BooTTYApi } from "./types/api";
+import type {
+	SplitDirection,
+	TerminalConfig,
+	TerminalId,
+	TerminalLocation,
+	TerminalProfile,
+} from "./types/terminal";
 
 let manager: TerminalManager | undefined;
 let panelProvider: BooTTYPanelViewProvider | undefined;
@@ -76,16 +89,157 @@ function resolveCwd(uri?: vscode.Uri): string | undefined {
 	}
 }
 
+/** Show a quick pick of `bootty.profiles` and return the chosen profile */
+async function pickProfile(): Promise<TerminalProfile | undefined> {
+	const profiles = parseProfiles(
+		vscode.workspace.getConfiguration("bootty").get("profiles"),
+	);
+	if (profiles.length === 0) {
+		const selection = await vscode.window.showInformationMessage(
+			"No BooTTY profiles configured. Add profiles in the bootty.profiles setting.",
+			"Open Settings",
+		);
+		if (selection === "Open Settings") {
+			vscode.commands.executeCommand(
+				"workbench.action.openSettings",
+				"bootty.profiles",
+			);
+		}
+		return undefined;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		profiles.map((profile) => ({
+			label: `$(${profile.icon ?? "terminal"}) ${profile.name}`,
+			description: [profile.path, ...(profile.args ?? [])]
+				.filter(Boolean)
+				.join(" "),
+			profile,
+		})),
+		{ placeHolder: "Select a terminal profile" },
+	);
+	return picked?.profile;
+}
+
+/** Build terminal config for a profile (profile cwd falls back to resolved cwd) */
+function getProfileConfig(profile: TerminalProfile): Partial<TerminalConfig> {
+	const profileCwd = profile.cwd
+		? expandProfileCwd(profile.cwd, {
+				workspaceFolder: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+				userHome: os.homedir(),
+			})
+		: undefined;
+	return {
+		shell: profile.path,
+		args: profile.args,
+		env: profile.env,
+		cwd: profileCwd ? resolveCwd(vscode.Uri.file(profileCwd)) : resolveCwd(),
+		icon: profile.icon,
+		color: profile.color,
+	};
+}
+
 /** Get default terminal location from settings */
 function getDefaultLocation(): TerminalLocation {
 	const config = vscode.workspace.getConfiguration("bootty");
 	return config.get<TerminalLocation>("defaultTerminalLocation", "panel");
 }
 
-export function activate(context: vscode.ExtensionContext) {
+/** Read the version from an installed package's package.json */
+function readPackageVersion(packageJsonPath: string): string | undefined {
+	try {
+		return JSON.parse(fs.readFileSync(packageJsonPath, "utf8")).version;
+	} catch {
+		return undefined;
+	}
+}
+
+/** Open a diagnostics report (versions, settings, terminals, recent errors) */
+async function collectDiagnostics(
+	context: vscode.ExtensionContext,
+	ptyHost: PtyHostClient | undefined,
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration("bootty");
+	const modulePath = (...segments: string[]) =>
+		path.join(context.extensionPath, "node_modules", ...segments);
+	const { terminals, wasmLoads } = manager!.getDiagnostics();
+	const report = formatDiagnosticsReport({
+		versions: [
+			["BooTTY", context.extension.packageJSON.version],
+			["VS Code", vscode.version],
+			[
+				"ghostty-web",
+				readPackageVersion(
+					modulePath("@0xbigboss", "ghostty-web", "package.json"),
+				),
+			],
+			["node-pty", readPackageVersion(modulePath("node-pty", "package.json"))],
+			["Electron", process.versions.electron],
+			["Node.js", process.versions.node],
+			[
+				"OS",
+				`${os.type()} ${os.release()} (${process.platform}-${process.arch})`,
+			],
+		],
+		settings: [
+			["bootty.defaultTerminalLocation", config.get("defaultTerminalLocation")],
+			[
+				"bootty.shellIntegration.enabled",
+				config.get("shellIntegration.enabled"),
+			],
+			[
+				"bootty.persistentSessions.enabled",
+				config.get("persistentSessions.enabled"),
+			],
+			["PTY host connected", ptyHost !== undefined],
+		],
+		terminals,
+		wasmLoads,
+		recentErrors: getRecentErrors(),
+	});
+	const doc = await vscode.workspace.openTextDocument({
+		language: "markdown",
+		content: report,
+	});
+	await vscode.window.showTextDocument(doc);
+}
+
+/** Connect to the detached PTY host if persistent sessions are enabled */
+async function connectPersistentSessions(
+	context: vscode.ExtensionContext,
+): Promise<PtyHostClient | undefined> {
+	const enabled = vscode.workspace
+		.getConfiguration("bootty")
+		.get<boolean>("persistentSessions.enabled", false);
+	if (!enabled) return undefined;
+
+	try {
+		return await connectPtyHost(
+			vscode.Uri.joinPath(context.extensionUri, "out", "pty-host.js").fsPath,
+			(context.storageUri ?? context.globalStorageUri).fsPath,
+		);
+	} catch (err) {
+		const msg = err instanceof Error ? err.message : String(err);
+		log.warn(`Persistent sessions unavailable: ${msg}`);
+		vscode.window.showWarningMessage(
+			`BooTTY: Persistent sessions unavailable (${msg}). Terminals will close on reload.`,
+		);
+		return undefined;
+	}
+}
+
+export async function activate(
+	context: vscode.ExtensionContext,
+): Promise<BooTTYApi> {
 	// Check for deprecated ghostty.* settings and warn user
 	checkDeprecatedSettings();
 
+	context.subscriptions.push({ dispose: disposeLog });
+
+	// Panel terminals are restored once this settles, so running shells can be
+	// reattached; everything else is available meanwhile
+	const ptyHost = connectPersistentSessions(context);
+
 	// Create panel view provider
 	panelProvider = new BooTTYPanelViewProvider(context.extensionUri);
 
@@ -93,7 +247,7 @@ export function activate(context: vscode.ExtensionContext) {
 	treeProvider = new TerminalTreeDataProvider();
 
 	// Create terminal manager with panel provider and tree provider
-	manager = new TerminalManager(context, panelProvider, treeProvider);
+	manager = new TerminalManager(context, panelProvider, treeProvider, ptyHost);
 	context.subscriptions.push(manager); // Auto-dispose on deactivate
 
 	// Set up message routing from panel to terminal manager
@@ -101,6 +255,16 @@ export function activate(context: vscode.ExtensionContext) {
 		manager!.handlePanelMessage(message);
 	});
 
+	// Run `bootty` tasks from tasks.json in panel tabs
+	const taskProvider = new BooTTYTaskProvider(manager, panelProvider);
+	context.subscriptions.push(
+		taskProvider,
+		vscode.tasks.registerTaskProvider(
+			BooTTYTaskProvider.taskType,
+			taskProvider,
+		),
+	);
+
 	// Wire up tree provider selection handler
 	treeProvider.setSelectHandler((terminalId) => {
 		panelProvider!.activateTerminal(terminalId);
@@ -136,12 +300,14 @@ export function activate(context: vscode.ExtensionContext) {
 	async function createTerminalWithLocation(
 		location: TerminalLocation,
 		cwd?: string,
+		config?: Partial<TerminalConfig>,
+		pty?: vscode.Pseudoterminal,
 	) {
 		if (location === "panel") {
 			// Show panel first so webview can send terminal-ready
 			await panelProvider!.show();
 		}
-		manager!.createTerminal({ cwd, location });
+		return manager!.createTerminal({ cwd, ...config, location }, pty);
 	}
 
 	// Register commands
@@ -184,6 +350,21 @@ export function activate(context: vscode.ExtensionContext) {
 			}
 		}),
 
+		// New terminal from a bootty.profiles entry
+		vscode.commands.registerCommand(
+			"bootty.newTerminalWithProfile",
+			async () => {
+				const profile = await pickProfile();
+				if (profile) {
+					await createTerminalWithLocation(
+						getDefaultLocation(),
+						undefined,
+						getProfileConfig(profile),
+					);
+				}
+			},
+		),
+
 		// New terminal here (from explorer context menu)
 		vscode.commands.registerCommand(
 			"bootty.newTerminalHere",
@@ -238,7 +419,8 @@ export function activate(context: vscode.ExtensionContext) {
 			async (item: TerminalTreeItem) => {
 				if (!item?.terminalId) return;
 				const newName = await vscode.window.showInputBox({
-					prompt: "Enter new terminal name",
+					prompt:
+						"Enter new terminal name (leave empty for the automatic title)",
 					value: item.label as string,
 				});
 				if (newName !== undefined) {
@@ -256,7 +438,128 @@ export function activate(context: vscode.ExtensionContext) {
 			// Fall back to panel terminal
 			panelProvider?.showSearch();
 		}),
+
+		// Shell integration (OSC 133) command navigation
+		vscode.commands.registerCommand("bootty.scrollToPreviousCommand", () => {
+			if (
+				manager?.postToActiveEditor({
+					type: "scroll-to-command",
+					direction: "previous",
+				})
+			) {
+				return;
+			}
+			panelProvider?.scrollToCommand("previous");
+		}),
+		vscode.commands.registerCommand("bootty.scrollToNextCommand", () => {
+			if (
+				manager?.postToActiveEditor({
+					type: "scroll-to-command",
+					direction: "next",
+				})
+			) {
+				return;
+			}
+			panelProvider?.scrollToCommand("next");
+		}),
+		vscode.commands.registerCommand(
+			"bootty.copyLastCommandOutput",
+			async () => {
+				const id = manager?.getActiveTerminalId();
+				if (!id) {
+					vscode.window.showInformationMessage("No active BooTTY terminal.");
+					return;
+				}
+				await manager!.copyLastCommandOutput(id);
+			},
+		),
+
+		vscode.commands.registerCommand(
+			"bootty.exportScrollback",
+			async (item?: TerminalTreeItem) => {
+				const id = item?.terminalId ?? manager?.getActiveTerminalId();
+				if (!id) {
+					vscode.window.showInformationMessage("No active BooTTY terminal.");
+					return;
+				}
+				await manager!.exportScrollback(id);
+			},
+		),
+		vscode.commands.registerCommand(
+			"bootty.moveToEditor",
+			async (item?: TerminalTreeItem) => {
+				const id = item?.terminalId ?? manager?.getActiveTerminalId();
+				if (id) {
+					await manager!.moveTerminal(id, "editor");
+				}
+			},
+		),
+		// The editor tab menu only shows on the active tab, so the active terminal is the target
+		vscode.commands.registerCommand("bootty.moveToPanel", async () => {
+			const id = manager?.getActiveTerminalId();
+			if (id) {
+				await manager!.moveTerminal(id, "panel");
+			}
+		}),
+
+		// Split panes (panel only)
+		vscode.commands.registerCommand("bootty.splitTerminal", async () => {
+			await splitActivePanelTerminal("horizontal");
+		}),
+		vscode.commands.registerCommand("bootty.splitTerminalDown", async () => {
+			await splitActivePanelTerminal("vertical");
+		}),
+		vscode.commands.registerCommand("bootty.focusNextPane", () => {
+			panelProvider?.focusAdjacentPane(1);
+		}),
+		vscode.commands.registerCommand("bootty.focusPreviousPane", () => {
+			panelProvider?.focusAdjacentPane(-1);
+		}),
+		vscode.commands.registerCommand("bootty.collectDiagnostics", async () =>
+			collectDiagnostics(context, await ptyHost),
+		),
 	);
+
+	// Split the focused panel terminal, creating a terminal first if the panel is empty
+	async function splitActivePanelTerminal(direction: SplitDirection) {
+		await panelProvider!.show();
+		if (!manager!.hasPanelTerminals()) {
+			manager!.createTerminal({ cwd: resolveCwd(), location: "panel" });
+			return;
+		}
+		panelProvider!.splitActivePane(direction);
+	}
+
+	// Public API for other extensions (types in types/api.ts)
+	return {
+		async createTerminal(options = {}) {
+			const { title, location, cwd, pty, ...config } = options;
+			const id = await createTerminalWithLocation(
+				location ?? getDefaultLocation(),
+				cwd ?? resolveCwd(),
+				config,
+				pty,
+			);
+			if (id && title) {
+				manager!.renameTerminal(id, title);
+			}
+			return id ?? undefined;
+		},
+		sendText(id, text, addNewLine = true) {
+			return manager!.sendText(id, addNewLine ? `${text}\r` : text);
+		},
+		closeTerminal(id) {
+			manager!.destroyTerminalById(id);
+		},
+		getCwd(id) {
+			return manager!.getCwd(id);
+		},
+		getTerminals() {
+			return manager!.getTerminalInfos();
+		},
+		onDidWriteData: manager.onDidWriteData,
+		onDidCloseTerminal: manager.onDidCloseTerminal,
+	};
 }
 
 export function deactivate() {
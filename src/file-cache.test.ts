@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
 	createFileCache,
+	getWorkspaceSearchGlob,
 	isAbsolutePath,
 	isWindowsPlatform,
 	quoteShellPath,
@@ -179,6 +180,48 @@ describe("file-cache", () => {
 		});
 	});
 
+	describe("getWorkspaceSearchGlob", () => {
+		it("searches for the path relative to the CWD", () => {
+			expect(getWorkspaceSearchGlob("/repo/src/index.ts", "/repo")).toBe(
+				"**/src/index.ts",
+			);
+			expect(getWorkspaceSearchGlob("src/index.ts")).toBe("**/src/index.ts");
+		});
+
+		it("drops leading ./ and ../ segments", () => {
+			expect(getWorkspaceSearchGlob("/repo/./lib/a.ts", "/repo")).toBe(
+				"**/lib/a.ts",
+			);
+			expect(getWorkspaceSearchGlob("../../pkg/a.ts")).toBe("**/pkg/a.ts");
+			expect(getWorkspaceSearchGlob("src\\win.ts")).toBe("**/src/win.ts");
+			expect(getWorkspaceSearchGlob("C:\\repo/src\\win.ts", "C:\\repo")).toBe(
+				"**/src/win.ts",
+			);
+			expect(getWorkspaceSearchGlob("C:\\repo\\a.ts", "C:\\repo\\")).toBe(
+				"**/a.ts",
+			);
+		});
+
+		it("skips absolute paths outside the CWD", () => {
+			expect(getWorkspaceSearchGlob("/other/a.ts", "/repo")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("C:/a.ts")).toBeUndefined();
+		});
+
+		it("skips paths that can't be searched literally", () => {
+			expect(getWorkspaceSearchGlob("src/[id].ts")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("a/../b.ts")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("/repo/..", "/repo")).toBeUndefined();
+		});
+
+		it("skips versions and URLs without a scheme", () => {
+			expect(getWorkspaceSearchGlob("4.0.16")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("/repo/v1.2", "/repo")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("example.com/docs/a.html")).toBeUndefined();
+			expect(getWorkspaceSearchGlob("example.com")).toBe("**/example.com");
+			expect(getWorkspaceSearchGlob("lib.rs/a.rs")).toBe("**/lib.rs/a.rs");
+		});
+	});
+
 	describe("quoteShellPath", () => {
 		describe("POSIX (default)", () => {
 			it("leaves simple paths unquoted", () => {
@@ -105,6 +105,42 @@ export function resolvePath(path: string, cwd?: string): string {
 	return path;
 }
 
+/** First segment of a URL printed without its scheme (example.com/docs) */
+const HOST_NAME_PATTERN = /^[\w-]+(\.[\w-]+)*\.(com|org|net|io|dev|app)$/i;
+
+/**
+ * Glob for finding a linked path anywhere in the workspace
+ * Fallback for relative paths that don't exist under the CWD (e.g. monorepo
+ * tools printing package-relative paths). Takes the path as resolved by
+ * resolvePath; returns undefined for paths printed as absolute and for
+ * candidates that aren't files (versions like 4.0.16, host names).
+ */
+export function getWorkspaceSearchGlob(
+	path: string,
+	cwd?: string,
+): string | undefined {
+	// Windows paths may mix separators (C:\repo/src\a.ts from resolvePath)
+	let relative = path.replace(/\\/g, "/");
+	const base = cwd?.replace(/\\/g, "/").replace(/\/+$/, "");
+	if (base && relative.startsWith(`${base}/`)) {
+		relative = relative.slice(base.length + 1);
+	} else if (isAbsolutePath(path)) {
+		return undefined;
+	}
+	const segments = relative.split(/[\\/]/).filter((segment) => segment !== "");
+	// Leading ./ and ../ are relative to the CWD, so they can't be searched for
+	while (segments[0] === "." || segments[0] === "..") segments.shift();
+	if (
+		segments.length === 0 ||
+		segments.some((segment) => segment === ".." || /[*?[\]{}]/.test(segment)) ||
+		/\.\d+$/.test(segments[segments.length - 1]) ||
+		(segments.length > 1 && HOST_NAME_PATTERN.test(segments[0]))
+	) {
+		return undefined;
+	}
+	return `**/${segments.join("/")}`;
+}
+
 /**
  * Detect if running on Windows
  */
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+	createHyperlinkFilter,
+	createHyperlinkRegistry,
+	parseHyperlinkTarget,
+} from "./hyperlinks";
+
+const link = (uri: string, text: string, terminator = "\x07") =>
+	`\x1b]8;;${uri}${terminator}${text}\x1b]8;;${terminator}`;
+
+describe("hyperlinks", () => {
+	describe("createHyperlinkFilter", () => {
+		it("takes out links with BEL or ST terminators", () => {
+			const filter = createHyperlinkFilter();
+			expect(
+				filter.filter(
+					`see ${link("https://a.example", "docs")} and ${link("file:///b.ts", "b.ts", "\x1b\\")}`,
+				),
+			).toEqual([
+				{ text: "see ", link: { uri: "https://a.example" } },
+				{ text: "docs", link: { uri: undefined } },
+				{ text: " and ", link: { uri: "file:///b.ts" } },
+				{ text: "b.ts", link: { uri: undefined } },
+			]);
+		});
+
+		it("passes other output through and keeps id params out of the URI", () => {
+			const filter = createHyperlinkFilter();
+			expect(filter.filter("\x1b]0;title\x07plain")).toEqual([
+				{ text: "\x1b]0;title\x07plain" },
+			]);
+			expect(
+				filter.filter("\x1b]8;id=7;https://x.example/a;b\x07\x1b[1mbold"),
+			).toEqual([
+				{ text: "", link: { uri: "https://x.example/a;b" } },
+				{ text: "\x1b[1mbold" },
+			]);
+		});
+
+		it("holds back sequences split across chunks", () => {
+			const filter = createHyperlinkFilter();
+			const data = `a${link("https://split.example", "split")}`;
+			const segments = [
+				...filter.filter(data.slice(0, 2)),
+				...filter.filter(data.slice(2, 4)),
+				...filter.filter(data.slice(4, 30)),
+				...filter.filter(data.slice(30)),
+			];
+			expect(segments.map((s) => s.text).join("")).toBe("asplit");
+			expect(segments.flatMap((s) => (s.link ? [s.link.uri] : []))).toEqual([
+				"https://split.example",
+				undefined,
+			]);
+		});
+	});
+
+	describe("createHyperlinkRegistry", () => {
+		it("records links by position, newest first", () => {
+			const registry = createHyperlinkRegistry();
+			registry.open("https://old", { x: 0, y: 1 }, "normal");
+			registry.print("name");
+			registry.close({ x: 3, y: 1 });
+			registry.open("https://new", { x: 5, y: 1 }, "normal");
+			registry.print("\x1b[1mname\x1b[0m");
+			registry.close({ x: 8, y: 1 });
+			expect(
+				registry
+					.getLinksOnRow(1, "normal")
+					.map((link) => [link.uri, link.text]),
+			).toEqual([
+				["https://new", "name"],
+				["https://old", "name"],
+			]);
+			expect(registry.getLinksOnRow(0, "normal")).toEqual([]);
+			expect(registry.getLinksOnRow(1, "alternate")).toEqual([]);
+		});
+
+		it("covers every row of a wrapped link and skips empty ones", () => {
+			const registry = createHyperlinkRegistry();
+			registry.open("https://long", { x: 70, y: 2 }, "normal");
+			registry.print("a-very-long-file-name.txt");
+			registry.close({ x: 14, y: 3 });
+			registry.open("https://empty", { x: 15, y: 3 }, "normal");
+			registry.close({ x: 14, y: 3 });
+			expect(registry.getLinksOnRow(2, "normal")).toHaveLength(1);
+			expect(registry.getLinksOnRow(3, "normal")[0]).toMatchObject({
+				uri: "https://long",
+				start: { x: 70, y: 2 },
+				end: { x: 14, y: 3 },
+			});
+		});
+
+		it("forgets links printed at or after a new link (redrawn screen)", () => {
+			const registry = createHyperlinkRegistry();
+			for (const [uri, x] of [
+				["https://1", 0],
+				["https://2", 10],
+			] as const) {
+				registry.open(uri, { x, y: 0 }, "normal");
+				registry.print("link");
+				registry.close({ x: x + 3, y: 0 });
+			}
+			registry.open("https://3", { x: 10, y: 0 }, "normal");
+			expect(registry.getLinksOnRow(0, "normal").map((l) => l.uri)).toEqual([
+				"https://1",
+			]);
+		});
+
+		it("forgets the oldest links past the limit", () => {
+			const registry = createHyperlinkRegistry(2);
+			for (const y of [0, 1, 2]) {
+				registry.open(`https://${y}`, { x: 0, y }, "normal");
+				registry.print("link");
+				registry.close({ x: 3, y });
+			}
+			expect(registry.getLinksOnRow(0, "normal")).toEqual([]);
+			expect(registry.getLinksOnRow(2, "normal")).toHaveLength(1);
+		});
+	});
+
+	describe("parseHyperlinkTarget", () => {
+		it("treats non-file URIs as URLs", () => {
+			expect(parseHyperlinkTarget("https://example.com/a#b")).toEqual({
+				type: "url",
+				url: "https://example.com/a#b",
+			});
+		});
+
+		it("parses file URIs with a host and line fragments", () => {
+			expect(parseHyperlinkTarget("file://myhost/src/a%20b.c#L12")).toEqual({
+				type: "file",
+				path: "/src/a b.c",
+				line: 12,
+				column: undefined,
+			});
+			expect(parseHyperlinkTarget("file:///src/a.c#12:5")).toMatchObject({
+				line: 12,
+				column: 5,
+			});
+			expect(parseHyperlinkTarget("file:///src/a.c#L3C7")).toMatchObject({
+				line: 3,
+				column: 7,
+			});
+		});
+
+		it("strips the leading slash from Windows drive paths", () => {
+			expect(parseHyperlinkTarget("file:///C:/dir/a.ts")).toMatchObject({
+				type: "file",
+				path: "C:/dir/a.ts",
+			});
+		});
+	});
+});
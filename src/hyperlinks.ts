@@ -0,0 +1,199 @@
+/**
+ * OSC 8 hyperlinks (ESC ] 8 ; params ; URI ST text ESC ] 8 ; ; ST)
+ * ghostty-web gives every linked cell the same hyperlink ID and doesn't expose
+ * URIs, so the webview takes OSC 8 sequences out of the output and records
+ * where each link's text was printed. Links are found by buffer position, and
+ * only while the text there is still the link's. Extracted for testability
+ * (no DOM dependencies)
+ */
+
+import { stripTerminalEscapes } from "./shell-integration";
+
+/** Output with OSC 8 sequences taken out */
+export interface HyperlinkSegment {
+	text: string;
+	/** Set if a link opens (or, with no URI, closes) right after the text */
+	link?: { uri: string | undefined };
+}
+
+/** Takes OSC 8 sequences out of terminal output */
+export interface HyperlinkFilter {
+	/** Split a chunk at its OSC 8 sequences (sequences cut off at the end are held for the next chunk) */
+	filter(data: string): HyperlinkSegment[];
+}
+
+/** A buffer cell (y is absolute: 0 = top of scrollback) */
+export interface CellPosition {
+	x: number;
+	y: number;
+}
+
+/** A link as printed */
+export interface RecordedHyperlink {
+	uri: string;
+	text: string; // Printed text (escapes removed)
+	start: CellPosition;
+	end: CellPosition; // Inclusive
+	screen: "normal" | "alternate";
+}
+
+/** Records where links were printed in one terminal */
+export interface HyperlinkRegistry {
+	/** Start a link at a cell; forgets links printed at or after it (redrawn screen) */
+	open(
+		uri: string,
+		start: CellPosition,
+		screen: RecordedHyperlink["screen"],
+	): void;
+	/** Add output printed inside the open link */
+	print(data: string): void;
+	/** End the open link at its last cell */
+	close(end: CellPosition): void;
+	/** Links covering a buffer row, newest first */
+	getLinksOnRow(
+		y: number,
+		screen: RecordedHyperlink["screen"],
+	): RecordedHyperlink[];
+}
+
+/** Where a hyperlink points: a local file (with optional position) or a URL */
+export type HyperlinkTarget =
+	| { type: "file"; path: string; line?: number; column?: number }
+	| { type: "url"; url: string };
+
+const OSC8_START = "\x1b]8;";
+// OSC 8 sequences cut off at the end of a chunk are kept for the next one
+const MAX_PENDING_LENGTH = 4096;
+
+/** Create an OSC 8 filter for one terminal's output stream */
+export function createHyperlinkFilter(): HyperlinkFilter {
+	let pending = "";
+
+	return {
+		filter(data) {
+			const input = pending + data;
+			pending = "";
+			const segments: HyperlinkSegment[] = [];
+			let textStart = 0;
+			let open = input.indexOf(OSC8_START);
+			while (open !== -1) {
+				// Terminated by BEL or ST (ESC \)
+				const bodyStart = open + OSC8_START.length;
+				const bel = input.indexOf("\x07", bodyStart);
+				const st = input.indexOf("\x1b\\", bodyStart);
+				const end = bel === -1 ? st : st === -1 ? bel : Math.min(bel, st);
+				if (end === -1) {
+					pending = input.slice(open);
+					break;
+				}
+				// params ; URI (the URI may itself contain semicolons)
+				const body = input.slice(bodyStart, end);
+				const separator = body.indexOf(";");
+				segments.push({
+					text: input.slice(textStart, open),
+					link:
+						separator === -1
+							? undefined
+							: { uri: body.slice(separator + 1) || undefined },
+				});
+				textStart = end + (end === st ? 2 : 1);
+				open = input.indexOf(OSC8_START, textStart);
+			}
+
+			let textEnd = pending ? input.length - pending.length : input.length;
+			if (!pending) {
+				// Hold back a possible start of a sequence ("\x1b", "\x1b]", "\x1b]8")
+				for (let n = OSC8_START.length - 1; n > 0; n--) {
+					if (
+						textEnd - n >= textStart &&
+						input.endsWith(OSC8_START.slice(0, n))
+					) {
+						pending = input.slice(textEnd - n);
+						textEnd -= n;
+						break;
+					}
+				}
+			}
+			// Never buffer unbounded output from a malformed sequence
+			if (pending.length > MAX_PENDING_LENGTH) pending = "";
+
+			const rest = input.slice(textStart, textEnd);
+			if (rest || segments.length === 0) segments.push({ text: rest });
+			return segments;
+		},
+	};
+}
+
+function isBefore(a: CellPosition, b: CellPosition): boolean {
+	return a.y < b.y || (a.y === b.y && a.x < b.x);
+}
+
+/**
+ * Create a hyperlink registry
+ * @param maxLinks - Links remembered (oldest are forgotten first)
+ */
+export function createHyperlinkRegistry(maxLinks = 1000): HyperlinkRegistry {
+	let links: RecordedHyperlink[] = [];
+	let openLink: Pick<RecordedHyperlink, "uri" | "start" | "screen"> | undefined;
+	let printed = "";
+
+	return {
+		open(uri, start, screen) {
+			links = links.filter(
+				(link) => link.screen !== screen || isBefore(link.start, start),
+			);
+			openLink = { uri, start, screen };
+			printed = "";
+		},
+
+		print(data) {
+			if (openLink) printed += data;
+		},
+
+		close(end) {
+			const text = stripTerminalEscapes(printed);
+			if (openLink && text.trim() && !isBefore(end, openLink.start)) {
+				links.push({ ...openLink, text, end });
+				if (links.length > maxLinks) links.shift();
+			}
+			openLink = undefined;
+			printed = "";
+		},
+
+		getLinksOnRow(y, screen) {
+			return links
+				.filter(
+					(link) =>
+						link.screen === screen && link.start.y <= y && link.end.y >= y,
+				)
+				.reverse();
+		},
+	};
+}
+
+/**
+ * Classify a hyperlink URI
+ * `file://host/path` opens the local path (the host is ignored). A fragment
+ * like `#L12`, `#12`, `#L12C5` or `#12:5` gives the line and column.
+ */
+export function parseHyperlinkTarget(uri: string): HyperlinkTarget {
+	const match = uri.match(/^file:\/\/[^/]*(\/[^?#]*)(?:\?[^#]*)?(?:#(.*))?$/i);
+	if (!match) return { type: "url", url: uri };
+
+	let path: string;
+	try {
+		path = decodeURIComponent(match[1]);
+	} catch {
+		path = match[1];
+	}
+	// file:///C:/dir/file.ts -> C:/dir/file.ts
+	if (/^\/[a-zA-Z]:/.test(path)) path = path.slice(1);
+
+	const position = match[2]?.match(/^L?(\d+)(?:(?:[:,]|C)(\d+))?/i);
+	return {
+		type: "file",
+		path,
+		line: position ? Number.parseInt(position[1], 10) : undefined,
+		column: position?.[2] ? Number.parseInt(position[2], 10) : undefined,
+	};
+}
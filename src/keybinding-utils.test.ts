@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import {
 	getKeyHandlerResult,
+	isLinkActivation,
 	isMacPlatform,
 	isSearchShortcut,
 	type KeyEvent,
@@ -95,6 +96,31 @@ describe("keybinding-utils", () => {
 		});
 	});
 
+	describe("isLinkActivation", () => {
+		const click = { metaKey: false, ctrlKey: false, altKey: false };
+
+		it("accepts Ctrl or Cmd for ctrlCmd", () => {
+			expect(isLinkActivation({ ...click, ctrlKey: true }, "ctrlCmd")).toBe(
+				true,
+			);
+			expect(isLinkActivation({ ...click, metaKey: true }, "ctrlCmd")).toBe(
+				true,
+			);
+			expect(isLinkActivation({ ...click, altKey: true }, "ctrlCmd")).toBe(
+				false,
+			);
+		});
+
+		it("requires Alt for alt", () => {
+			expect(isLinkActivation({ ...click, altKey: true }, "alt")).toBe(true);
+			expect(isLinkActivation({ ...click, ctrlKey: true }, "alt")).toBe(false);
+		});
+
+		it("accepts plain clicks for none", () => {
+			expect(isLinkActivation(click, "none")).toBe(true);
+		});
+	});
+
 	describe("getKeyHandlerResult - Mac", () => {
 		const isMac = true;
 
@@ -3,6 +3,8 @@
  * Extracted for testability
  */
 
+import type { LinkModifier } from "./types/messages";
+
 export interface KeyEvent {
 	key: string;
 	metaKey: boolean;
@@ -53,6 +55,24 @@ export function isPrevTabShortcut(event: KeyEvent, isMac: boolean): boolean {
 	return event.ctrlKey && event.shiftKey && event.key === "[";
 }
 
+/**
+ * Check if a click activates a link (bootty.links.activationModifier)
+ * "ctrlCmd" accepts either key, matching the previous hardcoded behavior.
+ */
+export function isLinkActivation(
+	event: Pick<KeyEvent, "metaKey" | "ctrlKey" | "altKey">,
+	modifier: LinkModifier,
+): boolean {
+	switch (modifier) {
+		case "ctrlCmd":
+			return event.ctrlKey || event.metaKey;
+		case "alt":
+			return event.altKey;
+		case "none":
+			return true;
+	}
+}
+
 /**
  * Determine how to handle a key event in the terminal
  *
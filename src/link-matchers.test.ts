@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { findFileLinks, getLinkRange } from "./link-matchers";
+
+/** Path, line and column of each link found in a line */
+function locations(lineText: string) {
+	return findFileLinks(lineText).map(({ path, line, column }) => ({
+		path,
+		line,
+		column,
+	}));
+}
+
+describe("link-matchers", () => {
+	it("matches paths with :line:col and reports the link range", () => {
+		const links = findFileLinks("error in src/app.ts:12:5 here");
+		expect(links).toEqual([
+			{
+				text: "src/app.ts:12:5",
+				path: "src/app.ts",
+				line: 12,
+				column: 5,
+				start: 9,
+				end: 24,
+			},
+		]);
+	});
+
+	it("converts matches to inclusive cell ranges", () => {
+		const [link] = findFileLinks("error in src/app.ts:12:5 here");
+		expect(getLinkRange(link, 3)).toEqual({
+			start: { x: 9, y: 3 },
+			end: { x: 23, y: 3 }, // The final "5"
+		});
+	});
+
+	it("matches TypeScript (line,col) locations", () => {
+		expect(locations("src/app.ts(12,5): error TS2322: nope")).toEqual([
+			{ path: "src/app.ts", line: 12, column: 5 },
+		]);
+	});
+
+	it("matches Python traceback frames, including paths with spaces", () => {
+		expect(
+			locations('  File "/home/me/my app/main.py", line 10, in <module>'),
+		).toEqual([
+			{ path: "/home/me/my app/main.py", line: 10, column: undefined },
+		]);
+	});
+
+	it("matches Rust diagnostics", () => {
+		expect(locations("   --> src/main.rs:3:5")).toEqual([
+			{ path: "src/main.rs", line: 3, column: 5 },
+		]);
+	});
+
+	it("matches Go panics and test failures", () => {
+		expect(
+			locations("\t/usr/local/go/src/runtime/panic.go:1038 +0x215"),
+		).toEqual([
+			{
+				path: "/usr/local/go/src/runtime/panic.go",
+				line: 1038,
+				column: undefined,
+			},
+		]);
+		expect(locations("    math_test.go:12: got 3, want 4")).toEqual([
+			{ path: "math_test.go", line: 12, column: undefined },
+		]);
+	});
+
+	it("matches Node stack frames, skipping internals", () => {
+		expect(
+			locations("    at run (/app/node_modules/@scope/pkg/index.js:10:5)"),
+		).toEqual([
+			{ path: "/app/node_modules/@scope/pkg/index.js", line: 10, column: 5 },
+		]);
+		expect(locations("    at file:///app/server.mjs:3:9")).toEqual([
+			{ path: "/app/server.mjs", line: 3, column: 9 },
+		]);
+		expect(
+			locations(
+				"    at Module._compile (node:internal/modules/cjs/loader:1105:14)",
+			),
+		).toEqual([]);
+	});
+
+	it("matches Jest and Vitest failure locations", () => {
+		expect(
+			locations("      at Object.<anonymous> (src/sum.test.ts:7:19)"),
+		).toEqual([{ path: "src/sum.test.ts", line: 7, column: 19 }]);
+		expect(locations(" ❯ src/sum.test.ts:7:19")).toEqual([
+			{ path: "src/sum.test.ts", line: 7, column: 19 },
+		]);
+	});
+
+	it("matches well-known files without an extension", () => {
+		expect(locations("Makefile:12: *** missing separator.  Stop.")).toEqual([
+			{ path: "Makefile", line: 12, column: undefined },
+		]);
+		expect(locations("see docker/Dockerfile.dev and Makefiles")).toEqual([
+			{ path: "docker/Dockerfile.dev", line: undefined, column: undefined },
+		]);
+	});
+
+	it("ignores text that is not a path", () => {
+		expect(locations("Compiled successfully in 12ms")).toEqual([]);
+	});
+});
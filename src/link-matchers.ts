@@ -0,0 +1,147 @@
+/**
+ * File link matchers for terminal output (webview/file-link-provider.ts)
+ * Each matcher recognizes one output format (compiler errors, stack frames,
+ * test failures, ...). Extracted for testability (no DOM or Node dependencies)
+ */
+
+/** A file reference found in a line of terminal output */
+export interface FileLinkMatch {
+	text: string; // Linked text (underlined on hover)
+	path: string; // File path as printed (relative paths resolve against the cwd)
+	line?: number;
+	column?: number;
+	start: number; // Index of the first linked character
+	end: number; // Index after the last linked character
+}
+
+/**
+ * Matcher for one output format
+ * `pattern` must be global with a `path` group and optional `line`/`col`
+ * groups. The whole match is the link, so leading context belongs in a
+ * lookbehind.
+ */
+export interface LinkMatcher {
+	name: string;
+	pattern: RegExp;
+}
+
+// Characters allowed in paths (spaces only where the format quotes the path)
+const PATH_CHARS = String.raw`[\w.\\/@+-]`;
+// Optional drive letter, then path characters
+const PATH = `(?:[a-zA-Z]:)?${PATH_CHARS}+`;
+// Path ending in a file extension
+const PATH_WITH_EXT = String.raw`(?:[a-zA-Z]:)?(?:\.{0,2}[\\/])?${PATH_CHARS}+\.[a-zA-Z0-9]+`;
+// Not preceded by a path character (so matches start at the path's beginning)
+const PATH_START = `(?<!${PATH_CHARS})`;
+// Common files without an extension (optionally with a suffix, e.g. Dockerfile.dev)
+const EXTENSIONLESS_NAMES = [
+	"Makefile",
+	"makefile",
+	"GNUmakefile",
+	"Dockerfile",
+	"Containerfile",
+	"Jenkinsfile",
+	"Vagrantfile",
+	"Gemfile",
+	"Rakefile",
+	"Procfile",
+	"Brewfile",
+	"Justfile",
+	"justfile",
+	"Caddyfile",
+	"CODEOWNERS",
+	"LICENSE",
+];
+
+/** Built-in matchers, most specific first (earlier matchers win overlaps) */
+export const DEFAULT_LINK_MATCHERS: LinkMatcher[] = [
+	{
+		// Python tracebacks: File "app/main.py", line 10, in <module>
+		name: "python",
+		pattern: /File "(?<path>[^"]+)", line (?<line>\d+)/g,
+	},
+	{
+		// TypeScript (tsc) and MSBuild: src/app.ts(12,5): error TS2322
+		name: "typescript",
+		pattern: new RegExp(
+			String.raw`${PATH_START}(?<path>${PATH_WITH_EXT})\((?<line>\d+),(?<col>\d+)\)`,
+			"g",
+		),
+	},
+	{
+		// Rust diagnostics: --> src/main.rs:3:5
+		name: "rust",
+		pattern: new RegExp(
+			String.raw`(?<=--> )(?<path>${PATH}):(?<line>\d+):(?<col>\d+)`,
+			"g",
+		),
+	},
+	{
+		// Node and Jest stack frames: at fn (/app/index.js:10:5), at file:///app/index.mjs:1:2
+		name: "node",
+		pattern: new RegExp(
+			String.raw`(?<=\bat (?:[^()]* \()?)(?:file:\/\/)?(?<path>${PATH}):(?<line>\d+):(?<col>\d+)`,
+			"g",
+		),
+	},
+	{
+		// Make and friends: Makefile:12: *** missing separator.
+		name: "extensionless",
+		pattern: new RegExp(
+			String.raw`${PATH_START}(?<path>(?:${PATH_CHARS}*[\\/])?(?:${EXTENSIONLESS_NAMES.join("|")})(?:\.[\w-]+)?)(?![\w\\/@-])(?::(?<line>\d+)(?::(?<col>\d+))?)?`,
+			"g",
+		),
+	},
+	{
+		// Anything else with an extension, optionally :line:col. Covers gcc/clang,
+		// Go (main.go:12 +0x1d), ESLint, and Vitest (❯ src/a.test.ts:4:10)
+		name: "path",
+		pattern: new RegExp(
+			String.raw`(?<=^|[\s'"(\[<])(?<path>${PATH_WITH_EXT})(?::(?<line>\d+)(?::(?<col>\d+))?)?`,
+			"g",
+		),
+	},
+];
+
+/**
+ * Find file references in a line of terminal output
+ * Matches overlapping an earlier matcher's match are dropped.
+ */
+export function findFileLinks(
+	lineText: string,
+	matchers: LinkMatcher[] = DEFAULT_LINK_MATCHERS,
+): FileLinkMatch[] {
+	const links: FileLinkMatch[] = [];
+	for (const matcher of matchers) {
+		for (const match of lineText.matchAll(matcher.pattern)) {
+			const path = match.groups?.path;
+			if (!path) continue;
+			const start = match.index;
+			const end = start + match[0].length;
+			if (links.some((link) => start < link.end && end > link.start)) {
+				continue;
+			}
+			const { line, col } = match.groups ?? {};
+			links.push({
+				text: match[0],
+				path,
+				line: line ? Number.parseInt(line, 10) : undefined,
+				column: col ? Number.parseInt(col, 10) : undefined,
+				start,
+				end,
+			});
+		}
+	}
+	return links.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Cell range of a link on row `y`, as ghostty-web link providers expect
+ * (both ends inclusive, unlike FileLinkMatch.end)
+ */
+export function getLinkRange(
+	link: Pick<FileLinkMatch, "start" | "end">,
+	y: number,
+): { start: { x: number; y: number }; end: { x: number; y: number } } {
+	return { start: { x: link.start, y }, end: { x: link.end - 1, y } };
+}
@@ -0,0 +1,62 @@
+/**
+ * BooTTY output channel (Output panel > BooTTY) with log levels
+ * The extension host logs here directly; webviews send `log` messages.
+ * Warnings and errors are also kept for "BooTTY: Collect Diagnostics".
+ */
+
+import * as vscode from "vscode";
+import type { LogLevel } from "./types/messages";
+
+/** Warnings and errors kept for diagnostics reports */
+const MAX_RECENT_ERRORS = 50;
+
+let channel: vscode.LogOutputChannel | undefined;
+const recentErrors: string[] = [];
+
+/** The output channel, created on first use */
+function getChannel(): vscode.LogOutputChannel {
+	channel ??= vscode.window.createOutputChannel("BooTTY", { log: true });
+	return channel;
+}
+
+function write(level: LogLevel, message: string): void {
+	getChannel()[level](message);
+	if (level === "warn" || level === "error") {
+		recentErrors.push(`${new Date().toISOString()} [${level}] ${message}`);
+		if (recentErrors.length > MAX_RECENT_ERRORS) {
+			recentErrors.shift();
+		}
+	}
+}
+
+/** Log to the BooTTY output channel */
+export const log = {
+	trace: (message: string) => write("trace", message),
+	debug: (message: string) => write("debug", message),
+	info: (message: string) => write("info", message),
+	warn: (message: string) => write("warn", message),
+	error: (message: string) => write("error", message),
+	/** Log at a level chosen at runtime (e.g., from a webview message) */
+	write,
+};
+
+/** Format an unknown thrown value for a log message */
+export function formatError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+/** Recent warnings and errors, oldest first */
+export function getRecentErrors(): readonly string[] {
+	return recentErrors;
+}
+
+/** Reveal the output channel */
+export function showLog(): void {
+	getChannel().show(true);
+}
+
+/** Dispose the output channel (on deactivate) */
+export function disposeLog(): void {
+	channel?.dispose();
+	channel = undefined;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { createNotificationParser, formatProgress } from "./notifications";
+
+describe("notifications", () => {
+	describe("createNotificationParser", () => {
+		it("parses OSC 9 messages", () => {
+			const parser = createNotificationParser();
+			expect(parser.parse(9, "Build done")).toEqual({
+				type: "message",
+				body: "Build done",
+			});
+			expect(parser.parse(9, "")).toBeUndefined();
+		});
+
+		it("parses OSC 777 notify with a title and body", () => {
+			const parser = createNotificationParser();
+			expect(parser.parse(777, "notify;Deploy;Done; 3 services")).toEqual({
+				type: "message",
+				title: "Deploy",
+				body: "Done; 3 services",
+			});
+			expect(parser.parse(777, "preexec")).toBeUndefined();
+		});
+
+		it("parses OSC 9;4 progress reports", () => {
+			const parser = createNotificationParser();
+			expect(
+				["4;1;42", "4;3", "4;2;150", "4;0"].map((params) =>
+					parser.parse(9, params),
+				),
+			).toEqual([
+				{ type: "progress", progress: { state: "normal", value: 42 } },
+				{
+					type: "progress",
+					progress: { state: "indeterminate", value: undefined },
+				},
+				{ type: "progress", progress: { state: "error", value: 100 } },
+				{ type: "progress", progress: undefined },
+			]);
+		});
+
+		it("ignores other ConEmu OSC 9 subcommands", () => {
+			const parser = createNotificationParser();
+			expect(parser.parse(9, "1;500")).toBeUndefined();
+		});
+
+		it("parses kitty OSC 99 notifications, including chunked ones", () => {
+			const parser = createNotificationParser();
+			expect(parser.parse(99, ";Hello")).toEqual({
+				type: "message",
+				body: "Hello",
+			});
+			expect(parser.parse(99, "i=1:d=0;Build")).toBeUndefined();
+			expect(
+				parser.parse(
+					99,
+					`i=1:p=body:e=1;${Buffer.from("finished ✓").toString("base64")}`,
+				),
+			).toEqual({ type: "message", title: "Build", body: "finished ✓" });
+		});
+
+		it("bounds unfinished kitty notifications", () => {
+			const parser = createNotificationParser();
+			for (let i = 0; i < 17; i++) {
+				parser.parse(99, `i=${i}:d=0;Title ${i}`);
+			}
+			// The oldest was dropped, so its body arrives without a title
+			expect(parser.parse(99, "i=0:p=body;done")).toEqual({
+				type: "message",
+				title: undefined,
+				body: "done",
+			});
+			expect(parser.parse(99, "i=16:p=body;done")).toEqual({
+				type: "message",
+				title: "Title 16",
+				body: "done",
+			});
+
+			for (let i = 0; i < 3; i++) {
+				parser.parse(99, `i=big:d=0;${"x".repeat(2000)}`);
+			}
+			const big = parser.parse(99, "i=big;");
+			expect(big?.type === "message" && big.body.length).toBe(4096);
+		});
+	});
+
+	describe("formatProgress", () => {
+		it("renders a bar with the percentage or state", () => {
+			expect(formatProgress({ state: "normal", value: 30 })).toBe(
+				"▰▰▰▱▱▱▱▱▱▱ 30%",
+			);
+			expect(formatProgress({ state: "error", value: 100 })).toBe(
+				"▰▰▰▰▰▰▰▰▰▰ error",
+			);
+			expect(formatProgress({ state: "indeterminate" })).toBe("working…");
+		});
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * Notification and progress escape sequences from terminal applications
+ * - OSC 9 ; message (iTerm2)
+ * - OSC 9 ; 4 ; state ; progress (ConEmu / Windows Terminal progress)
+ * - OSC 777 ; notify ; title ; body (rxvt, used by foot and others)
+ * - OSC 99 ; metadata ; payload (kitty, possibly split into chunks)
+ * Sequences are found by the OSC parser (osc-parser.ts), which passes their params here.
+ * Extracted for testability (no VS Code dependencies)
+ */
+
+/** Progress reported by OSC 9;4 (value is a percentage) */
+export interface TerminalProgress {
+	state: "normal" | "error" | "indeterminate" | "paused";
+	value?: number;
+}
+
+/** Notification or progress update parsed from output */
+export type TerminalNotification =
+	| { type: "message"; title?: string; body: string }
+	// undefined progress = remove the progress indicator
+	| { type: "progress"; progress: TerminalProgress | undefined };
+
+/** OSC codes carrying notifications or progress */
+export const NOTIFICATION_OSC_CODES = [9, 777, 99] as const;
+
+/** Parses notifications from one terminal's OSC sequences */
+export interface NotificationParser {
+	/** Parse the params of an OSC 9, 777 or 99 sequence */
+	parse(
+		code: (typeof NOTIFICATION_OSC_CODES)[number],
+		params: string,
+	): TerminalNotification | undefined;
+}
+
+const PROGRESS_STATES: Record<string, TerminalProgress["state"] | undefined> = {
+	"1": "normal",
+	"2": "error",
+	"3": "indeterminate",
+	"4": "paused",
+};
+
+const MAX_PENDING_KITTY = 16; // Unfinished kitty notifications kept (oldest dropped first)
+const MAX_KITTY_TEXT = 4096; // Characters kept per kitty title or body
+
+/** Decode base64 as UTF-8 (kitty e=1 payloads) */
+function decodeBase64(text: string): string {
+	try {
+		const bytes = Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+		return new TextDecoder().decode(bytes);
+	} catch {
+		return "";
+	}
+}
+
+function parseProgress(params: string): TerminalProgress | undefined {
+	const [stateCode, valueText] = params.split(";");
+	const state = PROGRESS_STATES[stateCode];
+	if (!state) return undefined; // 0 (or unknown) removes the indicator
+	const value = Number.parseInt(valueText ?? "", 10);
+	return {
+		state,
+		value: Number.isNaN(value) ? undefined : Math.min(100, Math.max(0, value)),
+	};
+}
+
+/** Create a notification parser (keeps kitty notifications sent in chunks) */
+export function createNotificationParser(): NotificationParser {
+	// Unfinished kitty notifications by id
+	const pendingKitty = new Map<string, { title: string; body: string }>();
+
+	function parseKitty(params: string): TerminalNotification | undefined {
+		const separator = params.indexOf(";");
+		if (separator === -1) return undefined;
+		const metadata = new Map(
+			params
+				.slice(0, separator)
+				.split(":")
+				.filter(Boolean)
+				.map((entry) => {
+					const [key, ...value] = entry.split("=");
+					return [key, value.join("=")] as const;
+				}),
+		);
+		let payload = params.slice(separator + 1);
+		if (metadata.get("e") === "1") payload = decodeBase64(payload);
+
+		const payloadType = metadata.get("p") ?? "title";
+		if (payloadType !== "title" && payloadType !== "body") return undefined;
+
+		const id = metadata.get("i") ?? "";
+		const pending = pendingKitty.get(id) ?? { title: "", body: "" };
+		pending[payloadType] = (pending[payloadType] + payload).slice(
+			0,
+			MAX_KITTY_TEXT,
+		);
+		pendingKitty.delete(id); // Re-added last, so the map stays oldest first
+		if (metadata.get("d") === "0") {
+			if (pendingKitty.size >= MAX_PENDING_KITTY) {
+				pendingKitty.delete(pendingKitty.keys().next().value ?? "");
+			}
+			pendingKitty.set(id, pending);
+			return undefined;
+		}
+
+		if (!pending.title && !pending.body) return undefined;
+		return pending.body
+			? {
+					type: "message",
+					title: pending.title || undefined,
+					body: pending.body,
+				}
+			: { type: "message", body: pending.title };
+	}
+
+	return {
+		parse(code, params) {
+			if (code === 777) {
+				const [command, title, ...body] = params.split(";");
+				if (command !== "notify") return undefined;
+				return {
+					type: "message",
+					title: title || undefined,
+					body: body.join(";"),
+				};
+			}
+			if (code === 99) return parseKitty(params);
+
+			// OSC 9: ConEmu uses numbered subcommands; only 4 (progress) is supported
+			const conEmu = params.match(/^(\d+);(.*)$/);
+			if (conEmu) {
+				return conEmu[1] === "4"
+					? { type: "progress", progress: parseProgress(conEmu[2]) }
+					: undefined;
+			}
+			return params ? { type: "message", body: params } : undefined;
+		},
+	};
+}
+
+const PROGRESS_BAR_WIDTH = 10;
+
+/** Text progress bar for tab labels, e.g. "▰▰▰▱▱▱▱▱▱▱ 30%" */
+export function formatProgress(progress: TerminalProgress): string {
+	if (progress.state === "indeterminate") return "working…";
+	const value = progress.value ?? 0;
+	const filled = Math.round((value / 100) * PROGRESS_BAR_WIDTH);
+	const bar = "▰".repeat(filled) + "▱".repeat(PROGRESS_BAR_WIDTH - filled);
+	if (progress.state === "error") return `${bar} error`;
+	if (progress.state === "paused") return `${bar} paused`;
+	return `${bar} ${value}%`;
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { createOscParser } from "./osc-parser";
+
+/** Parser that records every sequence as "code:params" */
+function createRecorder(codes = [0, 7, 9, 133]) {
+	const parser = createOscParser();
+	const seen: string[] = [];
+	for (const code of codes) {
+		parser.register(code, (params) => seen.push(`${code}:${params}`));
+	}
+	return { parser, seen };
+}
+
+describe("osc-parser", () => {
+	it("dispatches several sequences per chunk with BEL and ST terminators", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed(
+			"a\x1b]7;file:///tmp\x07b\x1b]0;title\x1b\\c\x1b]9;done\x07\x1b[1mbold",
+		);
+		expect(seen).toEqual(["7:file:///tmp", "0:title", "9:done"]);
+	});
+
+	it("joins sequences split across chunks", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("text\x1b");
+		parser.feed("]7;file:///ho");
+		parser.feed("me/me\x07");
+		expect(seen).toEqual(["7:file:///home/me"]);
+	});
+
+	it("handles an ST split between ESC and backslash", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("\x1b]0;vim\x1b");
+		expect(seen).toEqual([]);
+		parser.feed("\\\x1b]0;zsh\x07");
+		expect(seen).toEqual(["0:vim", "0:zsh"]);
+	});
+
+	it("splits code and params at the first separator only", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("\x1b]133;D;1\x07\x1b]9;4;1;50\x07\x1b]0\x07");
+		expect(seen).toEqual(["133:D;1", "9:4;1;50", "0:"]);
+	});
+
+	it("ignores unregistered codes and other escape sequences", () => {
+		const { parser, seen } = createRecorder([7]);
+		parser.feed("\x1b]8;;https://example.com\x07link\x1b]8;;\x07\x1b[0m\x1bM");
+		expect(seen).toEqual([]);
+	});
+
+	it("drops sequences aborted by another escape or CAN", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("\x1b]0;lost\x1b[0m\x1b]0;also lost\x18\x1b]0;kept\x07");
+		expect(seen).toEqual(["0:kept"]);
+	});
+
+	it("drops oversized sequences and recovers after them", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("\x1b]0;");
+		for (let i = 0; i < 10; i++) {
+			parser.feed("x".repeat(10000));
+		}
+		parser.feed("\x07\x1b]0;ok\x07");
+		expect(seen).toEqual(["0:ok"]);
+	});
+
+	it("calls every handler registered for a code", () => {
+		const parser = createOscParser();
+		const seen: string[] = [];
+		parser.register(9, (params) => seen.push(`first:${params}`));
+		parser.register(9, (params) => seen.push(`second:${params}`));
+		parser.feed("\x1b]9;hi\x07");
+		expect(seen).toEqual(["first:hi", "second:hi"]);
+	});
+
+	it("passes each handler the offset just past its sequence in the chunk", () => {
+		const parser = createOscParser();
+		const ends: number[] = [];
+		parser.register(133, (_params, end) => ends.push(end));
+		parser.feed("ab\x1b]133;A\x07cd\x1b]133;B\x1b\\");
+		parser.feed("\x1b]133");
+		expect(ends).toEqual([10, 21]);
+		parser.feed(";D\x07!");
+		expect(ends).toEqual([10, 21, 3]);
+	});
+
+	it("forgets a partial sequence on reset", () => {
+		const { parser, seen } = createRecorder();
+		parser.feed("\x1b]0;old sh");
+		parser.reset();
+		parser.feed("ell\x07\x1b]0;new\x07");
+		expect(seen).toEqual(["0:new"]);
+	});
+});
@@ -0,0 +1,124 @@
+/**
+ * Streaming OSC (Operating System Command) parser
+ * Finds ESC ] <code> ; <params> sequences terminated by BEL or ST (ESC \) in
+ * PTY output, including sequences split across chunks, and dispatches each
+ * one to the handlers registered for its code.
+ * Extracted for testability (no VS Code dependencies)
+ */
+
+/**
+ * Handles the parameters of one OSC sequence (the text after "<code>;")
+ * `end` is the offset just past the sequence in the chunk being fed.
+ */
+export type OscHandler = (params: string, end: number) => void;
+
+/** Parses OSC sequences from one terminal's output stream */
+export interface OscParser {
+	/** Register a handler for an OSC code (several handlers may share a code) */
+	register(code: number, handler: OscHandler): void;
+	/** Process a chunk of output; handlers run for each sequence it completes */
+	feed(data: string): void;
+	/** Drop any partial sequence (e.g., when the process restarts) */
+	reset(): void;
+}
+
+/** Longer sequences are dropped, bounding memory for unterminated ones */
+const MAX_OSC_LENGTH = 65536;
+
+// Ends the OSC text: BEL, ESC (start of ST), or CAN/SUB (cancel)
+const OSC_END_PATTERN = /[\x07\x1b\x18\x1a]/g;
+
+/** Create an OSC parser (keeps sequences split across chunks) */
+export function createOscParser(): OscParser {
+	const handlers = new Map<string, OscHandler[]>();
+	// ground: plain text; escape: after ESC; osc: inside ESC ]; oscEscape: ESC inside OSC
+	let state: "ground" | "escape" | "osc" | "oscEscape" = "ground";
+	let buffer = "";
+	let overflowed = false;
+
+	function append(text: string): void {
+		if (overflowed) return;
+		if (buffer.length + text.length > MAX_OSC_LENGTH) {
+			overflowed = true;
+			buffer = "";
+		} else {
+			buffer += text;
+		}
+	}
+
+	function finish(complete: boolean, end: number): void {
+		if (complete && !overflowed) {
+			const separator = buffer.indexOf(";");
+			const code = separator === -1 ? buffer : buffer.slice(0, separator);
+			const params = separator === -1 ? "" : buffer.slice(separator + 1);
+			for (const handler of handlers.get(code) ?? []) {
+				handler(params, end);
+			}
+		}
+		buffer = "";
+		overflowed = false;
+	}
+
+	return {
+		register(code, handler) {
+			const key = String(code);
+			handlers.set(key, [...(handlers.get(key) ?? []), handler]);
+		},
+
+		feed(data) {
+			let i = 0;
+			while (i < data.length) {
+				switch (state) {
+					case "ground": {
+						const start = data.indexOf("\x1b", i);
+						if (start === -1) return;
+						state = "escape";
+						i = start + 1;
+						break;
+					}
+					case "escape": {
+						const char = data[i++];
+						if (char === "]") {
+							state = "osc";
+						} else if (char !== "\x1b") {
+							state = "ground"; // Another escape sequence (CSI, ...)
+						}
+						break;
+					}
+					case "osc": {
+						OSC_END_PATTERN.lastIndex = i;
+						const end = OSC_END_PATTERN.exec(data);
+						append(data.slice(i, end ? end.index : data.length));
+						if (!end) return; // Continues in the next chunk
+						i = end.index + 1;
+						if (end[0] === "\x1b") {
+							state = "oscEscape";
+						} else {
+							finish(end[0] === "\x07", i);
+							state = "ground";
+						}
+						break;
+					}
+					case "oscEscape": {
+						if (data[i] === "\\") {
+							i++;
+							finish(true, i);
+							state = "ground";
+						} else {
+							// Any other escape aborts the OSC and starts a new sequence
+							finish(false, i);
+							state = "escape";
+						}
+						break;
+					}
+				}
+			}
+		},
+
+		reset() {
+			state = "ground";
+			buffer = "";
+			overflowed = false;
+		},
+	};
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	createAckCounter,
+	createFlowController,
+	createOutputBatcher,
+	createOutputQueue,
+	FLOW_ACK_SIZE,
+} from "./output-flow";
+
+describe("output-flow", () => {
+	describe("createOutputBatcher", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("sends the first chunk after a quiet interval immediately", () => {
+			const sent: string[] = [];
+			const batcher = createOutputBatcher((data) => sent.push(data), 16);
+			batcher.push("a");
+			expect(sent).toEqual(["a"]);
+			vi.advanceTimersByTime(100);
+			batcher.push("b");
+			expect(sent).toEqual(["a", "b"]);
+		});
+
+		it("coalesces output arriving within a frame", () => {
+			const sent: string[] = [];
+			const batcher = createOutputBatcher((data) => sent.push(data), 16);
+			batcher.push("first");
+			batcher.push("a");
+			batcher.push("b");
+			batcher.push("c");
+			expect(sent).toEqual(["first"]);
+			vi.advanceTimersByTime(16);
+			expect(sent).toEqual(["first", "abc"]);
+		});
+
+		it("sends a batch early once it reaches the size cap", () => {
+			const sent: string[] = [];
+			const batcher = createOutputBatcher((data) => sent.push(data), 16, 4);
+			batcher.push("x");
+			batcher.push("12");
+			batcher.push("34");
+			expect(sent).toEqual(["x", "1234"]);
+			vi.advanceTimersByTime(16);
+			expect(sent).toEqual(["x", "1234"]);
+		});
+
+		it("flushes on demand and drops pending output on dispose", () => {
+			const sent: string[] = [];
+			const batcher = createOutputBatcher((data) => sent.push(data), 16);
+			batcher.push("a");
+			batcher.push("b");
+			batcher.flush();
+			batcher.push("c");
+			batcher.dispose();
+			vi.advanceTimersByTime(16);
+			expect(sent).toEqual(["a", "b"]);
+		});
+	});
+
+	describe("createFlowController", () => {
+		it("pauses above the high watermark and resumes below the low one", () => {
+			const events: string[] = [];
+			const flow = createFlowController(
+				() => events.push("pause"),
+				() => events.push("resume"),
+				100,
+				10,
+			);
+			flow.sent(60);
+			flow.sent(60);
+			flow.sent(60);
+			expect(events).toEqual(["pause"]);
+			flow.acknowledge(100);
+			expect(events).toEqual(["pause"]);
+			flow.acknowledge(75);
+			expect(events).toEqual(["pause", "resume"]);
+		});
+
+		it("resumes on reset", () => {
+			const events: string[] = [];
+			const flow = createFlowController(
+				() => events.push("pause"),
+				() => events.push("resume"),
+				100,
+				10,
+			);
+			flow.reset();
+			flow.sent(200);
+			flow.reset();
+			flow.sent(50);
+			expect(events).toEqual(["pause", "resume"]);
+		});
+	});
+
+	it("acknowledges written output in steps", () => {
+		const acks: number[] = [];
+		const written = createAckCounter((count) => acks.push(count));
+		written(FLOW_ACK_SIZE - 1);
+		expect(acks).toEqual([]);
+		written(2);
+		expect(acks).toEqual([FLOW_ACK_SIZE + 1]);
+	});
+
+	describe("createOutputQueue", () => {
+		it("returns queued output in order and empties", () => {
+			const queue = createOutputQueue(100);
+			queue.push("a");
+			queue.push("b");
+			expect(queue.drain()).toBe("ab");
+			expect(queue.drain()).toBe("");
+		});
+
+		it("keeps the most recent output and marks what was discarded", () => {
+			const queue = createOutputQueue(10);
+			queue.push("old line\n");
+			queue.push("12345\n");
+			queue.push("678\n");
+			// "old line\n" (9 bytes) dropped at a line break: no line is cut
+			expect(queue.drain()).toBe(
+				"\x1b[90m[9 bytes of output truncated]\x1b[0m\r\n12345\n678\n",
+			);
+		});
+
+		it("drops the partial line left by a cut mid-line", () => {
+			const queue = createOutputQueue(10);
+			queue.push("old ");
+			queue.push("line\n12");
+			queue.push("345\n678\n");
+			// "old " and "line\n12" (11 bytes) dropped, ending mid-line, then the
+			// partial "345\n" before the first break
+			expect(queue.drain()).toBe(
+				"\x1b[90m[15 bytes of output truncated]\x1b[0m\r\n678\n",
+			);
+		});
+
+		it("trims a single oversized chunk to its end", () => {
+			const queue = createOutputQueue(4);
+			queue.push("abcdefgh");
+			expect(queue.drain()).toBe(
+				"\x1b[90m[4 bytes of output truncated]\x1b[0m\r\nefgh",
+			);
+		});
+
+		it("measures the limit in UTF-8 bytes", () => {
+			const queue = createOutputQueue(8);
+			queue.push("é😀"); // 2 + 4 bytes
+			expect(queue.drain()).toBe("é😀");
+			queue.push("😀😀😀"); // 12 bytes: the last two emoji fit
+			expect(queue.drain()).toBe(
+				"\x1b[90m[4 bytes of output truncated]\x1b[0m\r\n😀😀",
+			);
+		});
+	});
+});
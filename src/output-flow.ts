@@ -0,0 +1,243 @@
+/**
+ * Output batching and flow control between a PTY and its webview
+ * - Batching coalesces PTY chunks into one pty-data message per frame (or per
+ *   MAX_OUTPUT_BATCH_SIZE), so heavy output doesn't flood postMessage.
+ * - Flow control pauses the PTY while too much output is unacknowledged by the
+ *   webview (it acks every FLOW_ACK_SIZE chars written), like VS Code's terminal.
+ * - The output queue holds output while the webview loads, bounded by bytes.
+ * Shared by the extension host and webviews (no VS Code or Node dependencies)
+ */
+
+/** Batches are sent at most once per frame... */
+const OUTPUT_BATCH_INTERVAL_MS = 16;
+/** ...or as soon as this much output (UTF-16 code units) is pending */
+const MAX_OUTPUT_BATCH_SIZE = 64 * 1024;
+/** Pause the PTY when this much output is unacknowledged */
+const FLOW_HIGH_WATERMARK = 100_000;
+/** Resume it once the webview has caught up to this */
+const FLOW_LOW_WATERMARK = 5_000;
+/** The webview acknowledges output in steps of this many chars */
+export const FLOW_ACK_SIZE = 5_000;
+/** Max output held while a terminal's webview isn't ready (UTF-8 bytes) */
+const MAX_QUEUED_OUTPUT_BYTES = 1024 * 1024;
+
+/** Coalesces PTY output into batches */
+export interface OutputBatcher {
+	/** Queue output (sent at once after a quiet frame, else with the next batch) */
+	push(data: string): void;
+	/** Send pending output now */
+	flush(): void;
+	/** Drop pending output */
+	dispose(): void;
+}
+
+/**
+ * Create an output batcher
+ * The first chunk after a quiet interval is sent immediately, so typing
+ * echoes without delay; output arriving faster than that is batched.
+ */
+export function createOutputBatcher(
+	send: (data: string) => void,
+	intervalMs = OUTPUT_BATCH_INTERVAL_MS,
+	maxBatchSize = MAX_OUTPUT_BATCH_SIZE,
+): OutputBatcher {
+	let pending: string[] = [];
+	let pendingSize = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let lastSent = Number.NEGATIVE_INFINITY;
+
+	function flush(): void {
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			timer = undefined;
+		}
+		if (pending.length === 0) return;
+		const data = pending.join("");
+		pending = [];
+		pendingSize = 0;
+		lastSent = Date.now();
+		send(data);
+	}
+
+	return {
+		push(data) {
+			pending.push(data);
+			pendingSize += data.length;
+			if (
+				pendingSize >= maxBatchSize ||
+				(timer === undefined && Date.now() - lastSent >= intervalMs)
+			) {
+				flush();
+			} else if (timer === undefined) {
+				timer = setTimeout(flush, intervalMs);
+			}
+		},
+		flush,
+		dispose() {
+			if (timer !== undefined) clearTimeout(timer);
+			timer = undefined;
+			pending = [];
+			pendingSize = 0;
+		},
+	};
+}
+
+/** Tracks output the webview hasn't written yet, pausing the PTY past a limit */
+export interface FlowController {
+	/** Record output posted to the webview */
+	sent(charCount: number): void;
+	/** Record output the webview acknowledged */
+	acknowledge(charCount: number): void;
+	/** Forget unacknowledged output (e.g., a new webview) and resume */
+	reset(): void;
+}
+
+/** Create a flow controller that calls pause/resume on watermark crossings */
+export function createFlowController(
+	pause: () => void,
+	resume: () => void,
+	highWatermark = FLOW_HIGH_WATERMARK,
+	lowWatermark = FLOW_LOW_WATERMARK,
+): FlowController {
+	let unacknowledged = 0;
+	let paused = false;
+
+	return {
+		sent(charCount) {
+			unacknowledged += charCount;
+			if (!paused && unacknowledged > highWatermark) {
+				paused = true;
+				pause();
+			}
+		},
+		acknowledge(charCount) {
+			unacknowledged = Math.max(0, unacknowledged - charCount);
+			if (paused && unacknowledged < lowWatermark) {
+				paused = false;
+				resume();
+			}
+		},
+		reset() {
+			unacknowledged = 0;
+			if (paused) {
+				paused = false;
+				resume();
+			}
+		},
+	};
+}
+
+/** Counts output written by a webview and reports it in FLOW_ACK_SIZE steps */
+export function createAckCounter(
+	onAck: (charCount: number) => void,
+): (charCount: number) => void {
+	let written = 0;
+	return (charCount) => {
+		written += charCount;
+		if (written >= FLOW_ACK_SIZE) {
+			onAck(written);
+			written = 0;
+		}
+	};
+}
+
+/** UTF-8 size of one UTF-16 code unit (each half of a surrogate pair is 2) */
+function utf8Size(code: number): number {
+	if (code < 0x80) return 1;
+	if (code < 0x800 || (code >= 0xd800 && code <= 0xdfff)) return 2;
+	return 3;
+}
+
+/** UTF-8 length of a string, without encoding it */
+function utf8Length(text: string): number {
+	let bytes = 0;
+	for (let i = 0; i < text.length; i++) {
+		bytes += utf8Size(text.charCodeAt(i));
+	}
+	return bytes;
+}
+
+/** The end of a string that fits in `maxBytes` (never splits a surrogate pair) */
+function sliceTail(text: string, maxBytes: number): string {
+	let start = text.length;
+	let bytes = 0;
+	while (start > 0) {
+		const size = utf8Size(text.charCodeAt(start - 1));
+		if (bytes + size > maxBytes) break;
+		bytes += size;
+		start--;
+	}
+	const code = text.charCodeAt(start);
+	return code >= 0xdc00 && code <= 0xdfff
+		? text.slice(start + 1)
+		: text.slice(start);
+}
+
+/** Output held until a webview is ready, keeping the most recent past a byte limit */
+export interface OutputQueue {
+	/** Add output, discarding the oldest if over the limit */
+	push(data: string): void;
+	/** Take all queued output ("" if none), led by a marker if any was discarded */
+	drain(): string;
+}
+
+/** Create a byte-bounded output queue (a ring of chunks) */
+export function createOutputQueue(
+	maxBytes = MAX_QUEUED_OUTPUT_BYTES,
+): OutputQueue {
+	let chunks: Array<{ data: string; bytes: number }> = [];
+	let head = 0; // Index of the oldest kept chunk
+	let size = 0;
+	let discarded = 0;
+	let cutAtLineStart = false; // Whether the discarded output ended with a line break
+
+	return {
+		push(data) {
+			chunks.push({ data, bytes: utf8Length(data) });
+			size += chunks[chunks.length - 1].bytes;
+			while (size > maxBytes && head < chunks.length - 1) {
+				size -= chunks[head].bytes;
+				discarded += chunks[head].bytes;
+				cutAtLineStart = chunks[head].data.endsWith("\n");
+				head++;
+			}
+			// A single chunk over the limit keeps its end
+			if (size > maxBytes) {
+				const { data } = chunks[head];
+				const tail = sliceTail(data, maxBytes);
+				const bytes = utf8Length(tail);
+				cutAtLineStart = data[data.length - tail.length - 1] === "\n";
+				discarded += size - bytes;
+				chunks[head] = { data: tail, bytes };
+				size = bytes;
+			}
+			// Compact once most of the array is dropped chunks
+			if (head > 64 && head * 2 > chunks.length) {
+				chunks = chunks.slice(head);
+				head = 0;
+			}
+		},
+
+		drain() {
+			let data = chunks
+				.slice(head)
+				.map((chunk) => chunk.data)
+				.join("");
+			if (discarded > 0) {
+				// Resume at a line start, not mid-line or mid escape sequence
+				const lineBreak = cutAtLineStart ? -1 : data.indexOf("\n");
+				if (lineBreak !== -1) {
+					discarded += utf8Length(data.slice(0, lineBreak + 1));
+					data = data.slice(lineBreak + 1);
+				}
+				data = `\x1b[90m[${discarded} bytes of output truncated]\x1b[0m\r\n${data}`;
+			}
+			chunks = [];
+			head = 0;
+			size = 0;
+			discarded = 0;
+			cutAtLineStart = false;
+			return data;
+		},
+	};
+}
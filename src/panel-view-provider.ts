@@ -1,11 +1,50 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import { createOutputQueue, type OutputQueue } from "./output-flow";
+import {
+	createVSCodeConfigGetter,
+	resolveDisplaySettings,
+} from "./settings-resolver";
+import { getPaneIds, isPaneLayout } from "./split-layout";
 import type {
 	PanelExtensionMessage,
 	PanelWebviewMessage,
 } from "./types/messages";
-import type { PanelTab, TerminalId } from "./types/terminal";
+import type {
+	PaneLayout,
+	PanelTab,
+	SplitDirection,
+	TerminalId,
+} from "./types/terminal";
+
+/**
+ * Message waiting for the panel to be visible. A terminal's output is
+ * collected in one byte-bounded queue, since output for a hidden panel isn't
+ * subject to flow control.
+ */
+type QueuedMessage =
+	| { message: PanelExtensionMessage }
+	| { terminalId: TerminalId; output: OutputQueue };
+
+/** Messages whose order relative to the terminal's output matters */
+const OUTPUT_ORDERED_TYPES = new Set<PanelExtensionMessage["type"]>([
+	"pty-exit",
+	"pty-restart",
+	"resize",
+	"remove-tab",
+]);
+
+/** Saved terminal (or split tab) waiting to be recreated after panel-ready */
+interface PendingTerminal {
+	id: TerminalId;
+	title: string;
+	makeActive: boolean;
+	layout?: PaneLayout;
+	paneTitles?: Record<string, string>;
+	cwds?: Record<string, string>;
+	customTitles?: TerminalId[];
+}
 
 /** Callback for routing messages from panel webview to terminal manager */
 export type PanelMessageHandler = (message: PanelWebviewMessage) => void;
@@ -19,12 +58,12 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 
 	private _view?: vscode.WebviewView;
 	private _isReady = false; // True after panel-ready received
-	private _messageQueue: PanelExtensionMessage[] = []; // Queue for messages before ready
-	private _pendingTerminals: Array<{
-		id: TerminalId;
-		title: string;
-		makeActive: boolean;
-	}> = [];
+	private _loadAttempts = 0; // Reloads after the webview failed to start
+	private _messageQueue: QueuedMessage[] = []; // Queue for messages before ready
+	private _queuedOutput = new Map<TerminalId, OutputQueue>(); // Latest output entry per terminal
+	private _pendingTerminals: PendingTerminal[] = [];
+	private _progress = new Map<TerminalId, string>(); // Formatted OSC 9;4 progress per terminal
+	private _activeTerminalId?: TerminalId; // Last tab reported active by the webview
 	private _messageHandler?: PanelMessageHandler;
 	private _disposables: vscode.Disposable[] = [];
 
@@ -59,18 +98,23 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		};
 
 		webviewView.webview.html = this._getHtml(webviewView.webview);
+		this._showProgress();
 
 		// Restore state from previous session if available
-		const previousState = context.state as { tabs?: PanelTab[] } | undefined;
+		const previousState = context.state as
+			| {
+					tabs?: PanelTab[];
+					layouts?: unknown[];
+					currentCwd?: Record<string, string>;
+			  }
+			| undefined;
 		if (previousState?.tabs && previousState.tabs.length > 0) {
 			// Queue pending terminals to recreate after panel-ready
-			for (const tab of previousState.tabs) {
-				this._pendingTerminals.push({
-					id: tab.id,
-					title: tab.title,
-					makeActive: tab.active,
-				});
-			}
+			this._pendingTerminals = this._groupSavedTabs(
+				previousState.tabs,
+				previousState.layouts ?? [],
+				previousState.currentCwd ?? {},
+			);
 		}
 
 		// Handle visibility changes - flush queue when visible
@@ -108,6 +152,11 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 								type: "new-tab-requested-with-title",
 								title: pending.title,
 								makeActive: pending.makeActive,
+								restoreId: pending.id,
+								layout: pending.layout,
+								paneTitles: pending.paneTitles,
+								cwds: pending.cwds,
+								customTitles: pending.customTitles,
 							});
 						}
 						this._pendingTerminals = [];
@@ -133,42 +182,118 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		);
 	}
 
-	/** Post a message to the panel webview */
-	postMessage(message: PanelExtensionMessage): void {
+	/** Post a message to the panel webview (false if queued until it is visible) */
+	postMessage(message: PanelExtensionMessage): boolean {
 		if (this._isReady && this._view?.visible) {
 			this._view.webview.postMessage(message);
+			return true;
+		}
+		if (message.type === "pty-data") {
+			this._queueOutput(message.terminalId, message.data);
 		} else {
-			this._messageQueue.push(message);
+			if ("terminalId" in message && OUTPUT_ORDERED_TYPES.has(message.type)) {
+				// Later output starts a new entry, after this message
+				this._queuedOutput.delete(message.terminalId);
+			}
+			this._messageQueue.push({ message });
+		}
+		return false;
+	}
+
+	private _queueOutput(terminalId: TerminalId, data: string): void {
+		let output = this._queuedOutput.get(terminalId);
+		if (!output) {
+			output = createOutputQueue();
+			this._queuedOutput.set(terminalId, output);
+			this._messageQueue.push({ terminalId, output });
 		}
+		output.push(data);
 	}
 
 	/** Add a terminal tab to the panel */
-	addTerminal(id: TerminalId, title: string, makeActive: boolean): void {
+	addTerminal(
+		id: TerminalId,
+		title: string,
+		makeActive: boolean,
+		restoreId?: TerminalId,
+	): void {
 		this.postMessage({
 			type: "add-tab",
 			terminalId: id,
 			title,
 			makeActive,
+			restoreId,
 		});
 	}
 
 	/** Remove a terminal tab from the panel */
 	removeTerminal(id: TerminalId): void {
+		this._progress.delete(id);
+		this._showProgress();
 		this.postMessage({
 			type: "remove-tab",
 			terminalId: id,
 		});
 	}
 
-	/** Rename a terminal tab */
-	renameTerminal(id: TerminalId, title: string): void {
+	/** Rename a terminal tab (custom: named by the user, not the tabTitle template) */
+	renameTerminal(id: TerminalId, title: string, custom: boolean): void {
 		this.postMessage({
 			type: "rename-tab",
 			terminalId: id,
 			title,
+			custom,
+		});
+	}
+
+	/** Show (or clear, with undefined) a terminal's progress while its tab is active */
+	setProgress(id: TerminalId, progress: string | undefined): void {
+		if (progress) {
+			this._progress.set(id, progress);
+		} else {
+			this._progress.delete(id);
+		}
+		this._showProgress();
+	}
+
+	/** Track the tab the webview activated (its progress is shown) */
+	setActiveTerminal(id: TerminalId): void {
+		this._activeTerminalId = id;
+		this._showProgress();
+	}
+
+	/** Add a split pane next to an existing terminal */
+	addPane(
+		id: TerminalId,
+		title: string,
+		targetId: TerminalId,
+		direction: SplitDirection,
+		ratio: number,
+		makeActive: boolean,
+		restoreId?: TerminalId,
+	): void {
+		this.postMessage({
+			type: "add-pane",
+			terminalId: id,
+			title,
+			targetId,
+			direction,
+			ratio,
+			makeActive,
+			restoreId,
 		});
 	}
 
+	/** Split the focused pane of the active tab */
+	splitActivePane(direction: SplitDirection): void {
+		this.postMessage({ type: "split-active-pane", direction });
+	}
+
+	/** Move focus to the next (1) or previous (-1) pane in the active tab */
+	focusAdjacentPane(offset: number): void {
+		this.postMessage({ type: "focus-adjacent-pane", offset });
+	}
+
 	/** Activate a specific terminal tab */
 	activateTerminal(id: TerminalId): void {
 		this.postMessage({
@@ -177,6 +302,14 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		});
 	}
 
+	/** Show the active terminal's progress next to the panel's title */
+	private _showProgress(): void {
+		if (!this._view) return;
+		this._view.description = this._activeTerminalId
+			? this._progress.get(this._activeTerminalId)
+			: undefined;
+	}
+
 	/** Focus the active terminal */
 	focusTerminal(): void {
 		this.postMessage({ type: "focus-terminal" });
@@ -187,6 +320,11 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		this.postMessage({ type: "show-search" });
 	}
 
+	/** Scroll the active terminal to the previous/next shell prompt */
+	scrollToCommand(direction: "previous" | "next"): void {
+		this.postMessage({ type: "scroll-to-command", direction });
+	}
+
 	/** Check if the panel is visible */
 	get isVisible(): boolean {
 		return this._view?.visible ?? false;
@@ -197,6 +335,13 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		return this._isReady;
 	}
 
+	/** Reload the panel webview if it never started (queued messages are kept) */
+	reload(): void {
+		if (!this._view || this._isReady) return;
+		this._loadAttempts++;
+		this._view.webview.html = this._getHtml(this._view.webview);
+	}
+
 	/** Show the panel view */
 	async show(): Promise<void> {
 		await vscode.commands.executeCommand(
@@ -204,12 +349,89 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		);
 	}
 
+	/**
+	 * Group saved tabs by split layout so each split tab is restored as a unit.
+	 * Tabs not covered by a valid layout are restored as single panes.
+	 */
+	private _groupSavedTabs(
+		tabs: PanelTab[],
+		layouts: unknown[],
+		savedCwds: Record<string, string>,
+	): PendingTerminal[] {
+		const tabsById = new Map(tabs.map((tab) => [tab.id, tab]));
+		const grouped = new Set<TerminalId>();
+		const pending: PendingTerminal[] = [];
+
+		for (const layout of layouts) {
+			if (!isPaneLayout(layout) || layout.type === "pane") continue;
+			const paneIds = getPaneIds(layout);
+			const paneTabs = paneIds.map((id) => tabsById.get(id));
+			// Skip layouts that reference unknown or already-restored panes
+			if (paneTabs.some((tab) => !tab || grouped.has(tab.id))) continue;
+
+			const paneTitles: Record<string, string> = {};
+			const cwds: Record<string, string> = {};
+			const customTitles: TerminalId[] = [];
+			for (const tab of paneTabs as PanelTab[]) {
+				paneTitles[tab.id] = tab.title;
+				if (tab.customTitle) {
+					customTitles.push(tab.id);
+				}
+				if (savedCwds[tab.id]) {
+					cwds[tab.id] = savedCwds[tab.id];
+				}
+				grouped.add(tab.id);
+			}
+			const first = paneTabs[0] as PanelTab;
+			pending.push({
+				id: first.id,
+				title: first.title,
+				makeActive: paneTabs.some((tab) => tab?.active),
+				layout,
+				paneTitles,
+				cwds,
+				customTitles,
+			});
+		}
+
+		// Preserve saved tab order: split groups are placed at their first pane
+		const ordered: PendingTerminal[] = [];
+		for (const tab of tabs) {
+			const group = pending.find((p) => p.id === tab.id);
+			if (group) {
+				ordered.push(group);
+			} else if (!grouped.has(tab.id)) {
+				const cwd = savedCwds[tab.id];
+				ordered.push({
+					id: tab.id,
+					title: tab.title,
+					makeActive: tab.active,
+					cwds: cwd ? { [tab.id]: cwd } : undefined,
+					customTitles: tab.customTitle ? [tab.id] : undefined,
+				});
+			}
+		}
+		return ordered;
+	}
+
 	private _flushMessageQueue(): void {
 		if (!this._view || !this._isReady) return;
-		for (const msg of this._messageQueue) {
-			this._view.webview.postMessage(msg);
+		for (const entry of this._messageQueue) {
+			if ("message" in entry) {
+				this._view.webview.postMessage(entry.message);
+				continue;
+			}
+			const data = entry.output.drain();
+			if (data) {
+				this._view.webview.postMessage({
+					type: "pty-data",
+					terminalId: entry.terminalId,
+					data,
+				});
+			}
 		}
 		this._messageQueue = [];
+		this._queuedOutput.clear();
 	}
 
 	private _getHtml(webview: vscode.Webview): string {
@@ -248,8 +470,17 @@ export class BooTTYPanelViewProvider implements vscode.WebviewViewProvider {
 		);
 		let html = fs.readFileSync(templatePath, "utf8");
 
+		// Scrollback is a WASM config value, so it must be known at creation
+		const { scrollback } = resolveDisplaySettings(
+			createVSCodeConfigGetter((section) =>
+				vscode.workspace.getConfiguration(section),
+			),
+		);
+
 		html = html
 			.replace(/\{\{cspSource\}\}/g, webview.cspSource)
+			.replace(/\{\{scrollback\}\}/g, String(scrollback))
+			.replace(/\{\{loadAttempt\}\}/g, String(this._loadAttempts)) // Makes reloads differ
 			.replace(/\{\{wasmUri\}\}/g, wasmUri.toString())
 			.replace(/\{\{ghosttyWebJsUri\}\}/g, ghosttyWebJsUri.toString())
 			.replace(/\{\{mainJsUri\}\}/g, mainJsUri.toString())
@@ -0,0 +1,296 @@
+import * as childProcess from "node:child_process";
+import { randomBytes } from "node:crypto";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as os from "node:os";
+import * as path from "node:path";
+import type * as vscode from "vscode";
+import {
+	createMessageDecoder,
+	encodeMessage,
+	type HostEvent,
+	type HostRequest,
+	isPrivateToUser,
+	type PtyLaunch,
+} from "./pty-host-protocol";
+import type { BackendHandlers, TerminalBackend } from "./terminal-backend";
+
+const CONNECT_RETRIES = 30;
+const CONNECT_RETRY_DELAY_MS = 100;
+const SESSIONS_TIMEOUT_MS = 2000;
+/** Stored in the workspace storage dir (one host per workspace) */
+const HOST_INFO_FILE = "pty-host.json";
+
+/** How to reach and authenticate to a workspace's PTY host */
+interface HostInfo {
+	socketPath: string;
+	token: string; // Secret the host requires before serving any request
+}
+
+/** Whether a path exists, passes `check`, belongs to the current user and is closed to others */
+function isPrivatePath(
+	filePath: string,
+	check: (stats: fs.Stats) => boolean,
+): boolean {
+	try {
+		const stats = fs.lstatSync(filePath);
+		return check(stats) && isPrivateToUser(stats, os.userInfo().uid);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * A new, unguessable socket path in a directory only the current user can
+ * enter (XDG_RUNTIME_DIR, else a private temp dir; Unix socket paths are
+ * limited to ~100 bytes, so not the storage dir). Node can't set ACLs on
+ * Windows named pipes, so there the random name and the token protect the host.
+ */
+function createSocketPath(): string {
+	const name = `bootty-pty-host-${randomBytes(8).toString("hex")}`;
+	if (process.platform === "win32") {
+		return `\\\\.\\pipe\\${name}`;
+	}
+	const runtimeDir = process.env.XDG_RUNTIME_DIR;
+	const dir =
+		runtimeDir && isPrivatePath(runtimeDir, (stats) => stats.isDirectory())
+			? runtimeDir
+			: fs.mkdtempSync(path.join(os.tmpdir(), "bootty-")); // Created 0700
+	return path.join(dir, `${name}.sock`);
+}
+
+/**
+ * Load the workspace's host info, creating it (with a new token) if missing
+ * or if its socket directory is gone or no longer private (e.g., temp cleanup)
+ */
+function loadHostInfo(storagePath: string): HostInfo {
+	const infoPath = path.join(storagePath, HOST_INFO_FILE);
+	try {
+		const info = JSON.parse(fs.readFileSync(infoPath, "utf8")) as HostInfo;
+		if (
+			typeof info.socketPath === "string" &&
+			typeof info.token === "string" &&
+			(process.platform === "win32" ||
+				isPrivatePath(path.dirname(info.socketPath), (stats) =>
+					stats.isDirectory(),
+				))
+		) {
+			return info;
+		}
+	} catch {
+		// Missing or unreadable: create a new one
+	}
+	const info: HostInfo = {
+		socketPath: createSocketPath(),
+		token: randomBytes(32).toString("hex"),
+	};
+	fs.mkdirSync(storagePath, { recursive: true });
+	fs.writeFileSync(infoPath, JSON.stringify(info), { mode: 0o600 });
+	return info;
+}
+
+/**
+ * Connect to the host socket (undefined if nothing is listening)
+ * On Unix a socket that isn't private to the current user is refused, since
+ * another user could be impersonating the host.
+ */
+async function connectSocket(
+	socketPath: string,
+): Promise<net.Socket | undefined> {
+	if (
+		process.platform !== "win32" &&
+		fs.existsSync(socketPath) &&
+		!isPrivatePath(socketPath, (stats) => stats.isSocket())
+	) {
+		throw new Error("PTY host socket is not private to the current user");
+	}
+	return new Promise((resolve) => {
+		const socket = net.connect(socketPath);
+		socket.once("connect", () => {
+			socket.removeAllListeners("error");
+			resolve(socket);
+		});
+		socket.once("error", () => resolve(undefined));
+	});
+}
+
+/**
+ * Start the host detached from the extension host so it outlives a reload
+ * The token is passed in the environment, which (unlike the command line)
+ * other users can't read.
+ */
+function launchHost(hostScript: string, info: HostInfo): void {
+	const child = childProcess.spawn(
+		process.execPath,
+		[hostScript, info.socketPath],
+		{
+			detached: true,
+			stdio: "ignore",
+			windowsHide: true,
+			env: {
+				...process.env,
+				ELECTRON_RUN_AS_NODE: "1", // Run VS Code's Electron as Node
+				BOOTTY_PTY_HOST_TOKEN: info.token,
+			},
+		},
+	);
+	child.unref();
+}
+
+/**
+ * Connect to the workspace's PTY host, launching it if it isn't running
+ * @param hostScript - Path to out/pty-host.js
+ * @param storagePath - Workspace (or global) storage dir, identifies the host
+ */
+export async function connectPtyHost(
+	hostScript: string,
+	storagePath: string,
+): Promise<PtyHostClient> {
+	const info = loadHostInfo(storagePath);
+	let socket = await connectSocket(info.socketPath);
+	if (!socket) {
+		launchHost(hostScript, info);
+		for (let attempt = 0; attempt < CONNECT_RETRIES && !socket; attempt++) {
+			await new Promise((resolve) =>
+				setTimeout(resolve, CONNECT_RETRY_DELAY_MS),
+			);
+			socket = await connectSocket(info.socketPath);
+		}
+	}
+	if (!socket) {
+		throw new Error("PTY host did not start");
+	}
+
+	const client = new PtyHostClient(socket, info.token);
+	await client.fetchSessions();
+	return client;
+}
+
+/** Connection to the detached PTY host; sessions are exposed as TerminalBackends */
+export class PtyHostClient implements vscode.Disposable {
+	private handlers = new Map<string, BackendHandlers>();
+	private detachedSessions = new Set<string>(); // Live sessions from a previous connection
+	private processNames = new Map<string, string>(); // Foreground process per session
+	private onSessions?: (ids: string[]) => void;
+	private disposed = false;
+
+	/** @param token - Sent first; the host drops connections without it */
+	constructor(
+		private readonly socket: net.Socket,
+		token: string,
+	) {
+		socket.setEncoding("utf8");
+		socket.on(
+			"data",
+			createMessageDecoder<HostEvent>((e) => this.handle(e)),
+		);
+		socket.on("error", () => socket.destroy());
+		socket.on("close", () => {
+			if (this.disposed) return;
+			// Host crashed or was killed: its sessions are gone
+			for (const handlers of this.handlers.values()) {
+				handlers.onError(new Error("PTY host disconnected"));
+			}
+			this.handlers.clear();
+		});
+		this.send({ type: "hello", token });
+	}
+
+	/** Load the IDs of sessions still running in the host */
+	fetchSessions(): Promise<void> {
+		return new Promise((resolve) => {
+			// Unresponsive host: carry on as if it had no sessions
+			const timeout = setTimeout(resolve, SESSIONS_TIMEOUT_MS);
+			this.onSessions = (ids) => {
+				clearTimeout(timeout);
+				this.detachedSessions = new Set(ids);
+				resolve();
+			};
+			this.send({ type: "list" });
+		});
+	}
+
+	/** Check for a running session left by a previous window (before reload) */
+	hasDetachedSession(id: string): boolean {
+		return this.detachedSessions.has(id);
+	}
+
+	/** Start a shell in the host */
+	spawn(
+		id: string,
+		launch: PtyLaunch,
+		handlers: BackendHandlers,
+	): TerminalBackend {
+		this.handlers.set(id, handlers);
+		this.send({ type: "spawn", id, launch });
+		return this.createBackend(id);
+	}
+
+	/** Reattach to a detached session; its recent output arrives as data first */
+	attach(id: string, handlers: BackendHandlers): TerminalBackend {
+		this.detachedSessions.delete(id);
+		this.handlers.set(id, handlers);
+		this.send({ type: "attach", id });
+		return this.createBackend(id);
+	}
+
+	private createBackend(id: string): TerminalBackend {
+		return {
+			write: (data) => this.send({ type: "input", id, data }),
+			resize: (cols, rows) => this.send({ type: "resize", id, cols, rows }),
+			pause: () => this.send({ type: "pause", id }),
+			resume: () => this.send({ type: "resume", id }),
+			// The host reports changes (checked while output flows)
+			getProcessName: () => this.processNames.get(id),
+			kill: () => {
+				this.processNames.delete(id);
+				if (this.handlers.delete(id)) {
+					this.send({ type: "kill", id });
+				}
+			},
+		};
+	}
+
+	private send(request: HostRequest): void {
+		if (!this.socket.destroyed) {
+			this.socket.write(encodeMessage(request));
+		}
+	}
+
+	private handle(event: HostEvent): void {
+		if (event.type === "sessions") {
+			this.onSessions?.(event.ids);
+			this.onSessions = undefined;
+			return;
+		}
+
+		const handlers = this.handlers.get(event.id);
+		if (!handlers) return;
+		switch (event.type) {
+			case "process":
+				this.processNames.set(event.id, event.name);
+				break;
+			case "replay":
+			case "data":
+				if (event.data) handlers.onData(event.data);
+				break;
+			case "exit":
+				this.handlers.delete(event.id);
+				this.processNames.delete(event.id);
+				handlers.onExit(event.exitCode);
+				break;
+			case "error":
+				this.handlers.delete(event.id);
+				this.processNames.delete(event.id);
+				handlers.onError(new Error(event.message));
+				break;
+		}
+	}
+
+	/** Disconnect, leaving sessions running in the host for the next window */
+	dispose(): void {
+		this.disposed = true;
+		this.handlers.clear();
+		this.socket.end();
+	}
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+	createMessageDecoder,
+	createReplayBuffer,
+	encodeMessage,
+	type HostEvent,
+	isPrivateToUser,
+} from "./pty-host-protocol";
+
+describe("pty-host-protocol", () => {
+	describe("message framing", () => {
+		it("round-trips messages split across chunks", () => {
+			const received: HostEvent[] = [];
+			const decode = createMessageDecoder<HostEvent>((message) =>
+				received.push(message),
+			);
+			const wire =
+				encodeMessage({ type: "data", id: "a", data: "line\nwith newline" }) +
+				encodeMessage({ type: "exit", id: "a", exitCode: 0 });
+
+			decode(wire.slice(0, 10));
+			expect(received).toEqual([]);
+			decode(wire.slice(10));
+
+			expect(received).toEqual([
+				{ type: "data", id: "a", data: "line\nwith newline" },
+				{ type: "exit", id: "a", exitCode: 0 },
+			]);
+		});
+
+		it("drops malformed lines and keeps decoding", () => {
+			const received: HostEvent[] = [];
+			const decode = createMessageDecoder<HostEvent>((message) =>
+				received.push(message),
+			);
+			decode('not json\n{"no":"type"}\n');
+			decode(encodeMessage({ type: "sessions", ids: ["a"] }));
+
+			expect(received).toEqual([{ type: "sessions", ids: ["a"] }]);
+		});
+	});
+
+	describe("createReplayBuffer", () => {
+		it("keeps all output under the limit", () => {
+			const buffer = createReplayBuffer(100);
+			buffer.append("hello ");
+			buffer.append("world");
+			expect(buffer.contents()).toBe("hello world");
+		});
+
+		it("keeps the most recent output, starting at a line boundary", () => {
+			const buffer = createReplayBuffer(10);
+			buffer.append("first line\r\n");
+			buffer.append("second\r\n");
+			buffer.append("abc");
+			expect(buffer.contents()).toBe("abc");
+
+			for (let i = 0; i < 20; i++) buffer.append(`${i}\n`);
+			expect(buffer.contents()).toBe("17\n18\n19\n");
+		});
+
+		it("falls back to a raw tail when there is no line break", () => {
+			const buffer = createReplayBuffer(4);
+			buffer.append("abcdefgh");
+			expect(buffer.contents()).toBe("efgh");
+		});
+	});
+
+	describe("isPrivateToUser", () => {
+		it("accepts files owned by the user and closed to others", () => {
+			expect(isPrivateToUser({ uid: 1000, mode: 0o40700 }, 1000)).toBe(true);
+			expect(isPrivateToUser({ uid: 1000, mode: 0o140600 }, 1000)).toBe(true);
+		});
+
+		it("rejects other owners and group or world access", () => {
+			expect(isPrivateToUser({ uid: 1001, mode: 0o40700 }, 1000)).toBe(false);
+			expect(isPrivateToUser({ uid: 1000, mode: 0o40750 }, 1000)).toBe(false);
+			expect(isPrivateToUser({ uid: 1000, mode: 0o41777 }, 1000)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,123 @@
+/**
+ * Wire protocol between the extension and the detached PTY host (pty-host.ts)
+ * Newline-delimited JSON over a local socket (Unix domain socket or named pipe).
+ * Extracted for testability (no VS Code or Node dependencies)
+ */
+
+/** Resolved shell launch (defaults and shell integration already applied) */
+export interface PtyLaunch {
+	shell: string;
+	args: string[];
+	cwd: string;
+	env: Record<string, string>;
+	cols: number;
+	rows: number;
+}
+
+/** Extension -> host */
+export type HostRequest =
+	| { type: "hello"; token: string } // Must come first; the host drops clients without the token
+	| { type: "list" }
+	| { type: "spawn"; id: string; launch: PtyLaunch }
+	| { type: "attach"; id: string }
+	| { type: "input"; id: string; data: string }
+	| { type: "resize"; id: string; cols: number; rows: number }
+	| { type: "pause"; id: string } // Flow control: the webview fell behind
+	| { type: "resume"; id: string }
+	| { type: "kill"; id: string };
+
+/** Host -> extension */
+export type HostEvent =
+	| { type: "sessions"; ids: string[] }
+	| { type: "replay"; id: string; data: string } // Recent output, sent on attach
+	| { type: "data"; id: string; data: string }
+	| { type: "exit"; id: string; exitCode: number }
+	| { type: "error"; id: string; message: string }
+	| { type: "process"; id: string; name: string }; // Foreground process changed (for ${process} titles)
+
+/** Max output kept per session for replay on reattach (UTF-16 code units) */
+const MAX_REPLAY_LENGTH = 256 * 1024;
+
+/** Owner and permission bits of a file (a subset of fs.Stats) */
+interface FileOwnership {
+	uid: number;
+	mode: number;
+}
+
+/**
+ * Whether a file belongs to `uid` and is closed to other users
+ * The host socket and its directory must pass this, so another local user
+ * can't bind the socket first or replace it.
+ */
+export function isPrivateToUser(stats: FileOwnership, uid: number): boolean {
+	return stats.uid === uid && (stats.mode & 0o077) === 0;
+}
+
+/** Serialize a message as one line */
+export function encodeMessage(message: HostRequest | HostEvent): string {
+	return `${JSON.stringify(message)}\n`;
+}
+
+/**
+ * Create a decoder that reassembles lines split across socket chunks
+ * Malformed lines are dropped so one bad message can't wedge the connection.
+ */
+export function createMessageDecoder<T extends HostRequest | HostEvent>(
+	onMessage: (message: T) => void,
+): (chunk: string) => void {
+	let pending = "";
+	return (chunk) => {
+		pending += chunk;
+		const lines = pending.split("\n");
+		pending = lines.pop() ?? "";
+		for (const line of lines) {
+			if (line === "") continue;
+			let message: unknown;
+			try {
+				message = JSON.parse(line);
+			} catch {
+				continue;
+			}
+			if (message && typeof message === "object" && "type" in message) {
+				onMessage(message as T);
+			}
+		}
+	};
+}
+
+/** Recent output of a session, trimmed from the front past `maxLength` */
+export interface ReplayBuffer {
+	append(data: string): void;
+	contents(): string;
+}
+
+export function createReplayBuffer(
+	maxLength = MAX_REPLAY_LENGTH,
+): ReplayBuffer {
+	let chunks: string[] = [];
+	let length = 0;
+
+	// Keep the last `maxLength` units, resuming after the first line break so
+	// replay doesn't start mid-line (or mid escape sequence, in most cases)
+	const trimmed = (): string => {
+		const joined = chunks.join("");
+		if (joined.length <= maxLength) return joined;
+		const tail = joined.slice(joined.length - maxLength);
+		const lineBreak = tail.indexOf("\n");
+		return lineBreak === -1 ? tail : tail.slice(lineBreak + 1);
+	};
+
+	return {
+		append(data) {
+			chunks.push(data);
+			length += data.length;
+			// Compact lazily (at twice the limit) to avoid re-joining on every chunk
+			if (length > maxLength * 2) {
+				chunks = [trimmed()];
+				length = chunks[0].length;
+			}
+		},
+
+		contents: trimmed,
+	};
+}
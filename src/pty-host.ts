@@ -0,0 +1,247 @@
+/**
+ * Detached PTY host process (bundled to out/pty-host.js)
+ * Owns node-pty sessions so shells survive extension host restarts (window reload).
+ * The extension reattaches over a local socket and receives recent output to replay.
+ *
+ * Usage: BOOTTY_PTY_HOST_TOKEN=<token> node pty-host.js <socket-path>
+ * Clients must send the token (hello) before anything else.
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import * as fs from "node:fs";
+import * as net from "node:net";
+import * as pty from "node-pty";
+import {
+	createMessageDecoder,
+	createReplayBuffer,
+	encodeMessage,
+	type HostEvent,
+	type HostRequest,
+	type ReplayBuffer,
+} from "./pty-host-protocol";
+
+/** Sessions with no attached client are killed after this long */
+const ORPHAN_TIMEOUT_MS = 5 * 60 * 1000;
+/** Exit if the launching extension never connects */
+const STARTUP_TIMEOUT_MS = 30 * 1000;
+/** Drop connections that don't authenticate in time */
+const AUTH_TIMEOUT_MS = 5 * 1000;
+/** Min interval between foreground process checks per session */
+const PROCESS_CHECK_INTERVAL_MS = 1000;
+
+interface Session {
+	process: pty.IPty;
+	replay: ReplayBuffer;
+	client?: net.Socket; // Client receiving output (last to spawn or attach)
+	orphanTimer?: ReturnType<typeof setTimeout>;
+	processName?: string; // Last foreground process reported to the client
+	processCheckedAt: number;
+}
+
+const socketPath = process.argv[2];
+// Shared secret from the launching extension (kept out of spawned shells)
+const token = Buffer.from(process.env.BOOTTY_PTY_HOST_TOKEN ?? "");
+delete process.env.BOOTTY_PTY_HOST_TOKEN;
+if (token.length === 0) process.exit(1);
+const sessions = new Map<string, Session>();
+const clients = new Set<net.Socket>();
+
+function send(client: net.Socket | undefined, event: HostEvent): void {
+	if (client && !client.destroyed) {
+		client.write(encodeMessage(event));
+	}
+}
+
+/** Exit once nothing is left to serve */
+function exitIfIdle(): void {
+	if (sessions.size === 0 && clients.size === 0) {
+		server.close();
+		process.exit(0);
+	}
+}
+
+/** Start the orphan timer for a session that lost its client */
+function detachSession(id: string, session: Session): void {
+	session.client = undefined;
+	// Keep reading output (for replay) if the old client had paused it
+	session.process.resume();
+	session.orphanTimer = setTimeout(() => {
+		session.process.kill();
+		sessions.delete(id);
+		exitIfIdle();
+	}, ORPHAN_TIMEOUT_MS);
+}
+
+/** Check whether a token matches the host's (in constant time) */
+function isValidToken(candidate: unknown): boolean {
+	if (typeof candidate !== "string") return false;
+	const received = Buffer.from(candidate);
+	return received.length === token.length && timingSafeEqual(received, token);
+}
+
+/** Tell the client when the session's foreground process changes */
+function reportProcess(id: string, session: Session, force = false): void {
+	const now = Date.now();
+	if (!force && now - session.processCheckedAt < PROCESS_CHECK_INTERVAL_MS) {
+		return;
+	}
+	session.processCheckedAt = now;
+	const name = session.process.process;
+	if (!force && name === session.processName) return;
+	session.processName = name;
+	send(session.client, { type: "process", id, name });
+}
+
+function attachSession(session: Session, client: net.Socket): void {
+	if (session.orphanTimer) {
+		clearTimeout(session.orphanTimer);
+		session.orphanTimer = undefined;
+	}
+	// A new client starts with flow control released
+	session.process.resume();
+	session.client = client;
+}
+
+function spawnSession(
+	client: net.Socket,
+	request: Extract<HostRequest, { type: "spawn" }>,
+): void {
+	const { id, launch } = request;
+	let proc: pty.IPty;
+	try {
+		proc = pty.spawn(launch.shell, launch.args, {
+			name: "xterm-256color",
+			cols: launch.cols,
+			rows: launch.rows,
+			cwd: launch.cwd,
+			env: launch.env,
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		send(client, { type: "error", id, message });
+		return;
+	}
+
+	const session: Session = {
+		process: proc,
+		replay: createReplayBuffer(),
+		processCheckedAt: 0,
+	};
+	attachSession(session, client);
+	sessions.set(id, session);
+
+	proc.onData((data) => {
+		session.replay.append(data);
+		// Before the data, so titles refreshed by it see the new process
+		reportProcess(id, session);
+		send(session.client, { type: "data", id, data });
+	});
+	proc.onExit(({ exitCode }) => {
+		if (session.orphanTimer) clearTimeout(session.orphanTimer);
+		sessions.delete(id);
+		send(session.client, { type: "exit", id, exitCode });
+		exitIfIdle();
+	});
+}
+
+function handleRequest(client: net.Socket, request: HostRequest): void {
+	if (request.type === "hello") return; // Already authenticated
+	if (request.type === "list") {
+		send(client, { type: "sessions", ids: [...sessions.keys()] });
+		return;
+	}
+	if (request.type === "spawn") {
+		spawnSession(client, request);
+		return;
+	}
+
+	const session = sessions.get(request.id);
+	if (!session) {
+		if (request.type === "attach") {
+			send(client, {
+				type: "error",
+				id: request.id,
+				message: "Session no longer exists",
+			});
+		}
+		return;
+	}
+
+	switch (request.type) {
+		case "attach":
+			attachSession(session, client);
+			send(client, {
+				type: "replay",
+				id: request.id,
+				data: session.replay.contents(),
+			});
+			reportProcess(request.id, session, true);
+			break;
+		case "input":
+			session.process.write(request.data);
+			break;
+		case "resize":
+			session.process.resize(request.cols, request.rows);
+			break;
+		case "pause":
+			session.process.pause();
+			break;
+		case "resume":
+			session.process.resume();
+			break;
+		case "kill":
+			// Output and exit are no longer wanted by anyone
+			session.client = undefined;
+			session.process.kill();
+			break;
+	}
+}
+
+const server = net.createServer((client) => {
+	let authenticated = false;
+	const authTimer = setTimeout(() => client.destroy(), AUTH_TIMEOUT_MS);
+	client.setEncoding("utf8");
+	client.on(
+		"data",
+		createMessageDecoder<HostRequest>((request) => {
+			if (authenticated) {
+				handleRequest(client, request);
+			} else if (request.type === "hello" && isValidToken(request.token)) {
+				authenticated = true;
+				clearTimeout(authTimer);
+				clients.add(client);
+			} else {
+				client.destroy();
+			}
+		}),
+	);
+	client.on("error", () => client.destroy());
+	client.on("close", () => {
+		clearTimeout(authTimer);
+		clients.delete(client);
+		for (const [id, session] of sessions) {
+			if (session.client === client) detachSession(id, session);
+		}
+		exitIfIdle();
+	});
+});
+
+// Remove a stale socket left by a crashed host (Unix only; pipes vanish on exit)
+if (process.platform !== "win32") {
+	try {
+		fs.unlinkSync(socketPath);
+	} catch {
+		// Not there
+	}
+	// The socket is created private (it also sits in a private directory)
+	process.umask(0o077);
+}
+
+server.listen(socketPath);
+server.on("error", () => process.exit(1));
+setTimeout(exitIfIdle, STARTUP_TIMEOUT_MS);
+process.on("exit", () => {
+	for (const session of sessions.values()) {
+		session.process.kill();
+	}
+});
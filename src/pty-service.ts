@@ -1,17 +1,18 @@
 import * as fs from "node:fs";
 import * as pty from "node-pty";
 import * as vscode from "vscode";
+import type { LaunchDiagnostics } from "./diagnostics";
+import { log } from "./logger";
+import type { PtyHostClient } from "./pty-host-client";
+import type { PtyLaunch } from "./pty-host-protocol";
+import { getShellIntegrationLaunch } from "./shell-integration";
+import type { BackendHandlers, TerminalBackend } from "./terminal-backend";
 import type { TerminalConfig, TerminalId } from "./types/terminal";
 
 /** Result of spawn attempt */
-export type SpawnResult = { ok: true } | { ok: false; error: string };
-
-/** PTY event handlers */
-export interface PtyHandlers {
-	onData: (data: string) => void;
-	onExit: (code: number) => void;
-	onError: (error: Error) => void; // Runtime errors (e.g., process crash)
-}
+type SpawnResult =
+	| { ok: true; backend: TerminalBackend }
+	| { ok: false; error: string };
 
 interface PtyInstance {
 	id: TerminalId;
@@ -20,6 +21,44 @@ interface PtyInstance {
 
 export class PtyService implements vscode.Disposable {
 	private instances = new Map<TerminalId, PtyInstance>();
+	/** How each running terminal was launched (for diagnostics; no env values) */
+	private launches = new Map<TerminalId, LaunchDiagnostics>();
+	/** Detached PTY host that owns persistent processes (once connected) */
+	private host?: PtyHostClient;
+	private disposed = false;
+
+	/** @param shellIntegrationDir - Directory with bundled shell integration scripts */
+	constructor(private readonly shellIntegrationDir?: string) {}
+
+	/** Use a connected PTY host for persistent spawns from now on */
+	setHost(host: PtyHostClient): void {
+		if (this.disposed) {
+			host.dispose();
+			return;
+		}
+		this.host = host;
+	}
+
+	/** Get spawn args/env that inject shell integration, if enabled and supported */
+	private getShellIntegration(
+		shell: string,
+		config: TerminalConfig,
+	): { args: string[]; env: Record<string, string> } {
+		const args = config.args ?? [];
+		const enabled = vscode.workspace
+			.getConfiguration("bootty")
+			.get<boolean>("shellIntegration.enabled", true);
+		if (!enabled || !this.shellIntegrationDir || process.platform === "win32") {
+			return { args, env: {} };
+		}
+		const launch = getShellIntegrationLaunch(
+			shell,
+			this.shellIntegrationDir,
+			args,
+			{ ...process.env, ...config.env },
+		);
+		return launch ?? { args, env: {} };
+	}
 
 	/** Get the default shell for the current platform */
 	private getDefaultShell(): string {
@@ -63,25 +102,68 @@ export class PtyService implements vscode.Disposable {
 		return "/bin/sh";
 	}
 
-	/** Spawn PTY, returns error if shell/cwd invalid or native module fails */
+	/** Resolve shell, args, cwd and env for a spawn (defaults and shell integration) */
+	private resolveLaunch(config: TerminalConfig): PtyLaunch {
+		const shell = config.shell || this.getDefaultShell();
+		const cwd = config.cwd || process.env.HOME || process.cwd();
+
+		const integration = this.getShellIntegration(shell, config);
+
+		log.info(
+			`Spawning shell: ${shell}, cwd: ${cwd}, shell integration: ${Object.keys(integration.env).length > 0}`,
+		);
+
+		return {
+			shell,
+			args: integration.args,
+			cwd,
+			env: { ...config.env, ...integration.env },
+			cols: config.cols || 80,
+			rows: config.rows || 24,
+		};
+	}
+
+	/**
+	 * Spawn PTY, returns error if shell/cwd invalid or native module fails
+	 * @param persistent - Run in the PTY host (if connected) so the shell can be
+	 *   reattached after a reload; only panel terminals are restored
+	 */
 	spawn(
 		id: TerminalId,
 		config: TerminalConfig,
-		handlers: PtyHandlers,
+		handlers: BackendHandlers,
+		persistent: boolean,
 	): SpawnResult {
 		try {
-			const shell = config.shell || this.getDefaultShell();
-			const cwd = config.cwd || process.env.HOME || process.cwd();
+			const launch = this.resolveLaunch(config);
+			this.launches.set(id, {
+				shell: launch.shell,
+				args: launch.args,
+				cwd: launch.cwd,
+				envKeys: Object.keys(launch.env).sort(),
+			});
 
-			// Log for debugging
-			console.log(`[PtyService] Spawning shell: ${shell}, cwd: ${cwd}`);
+			// Host spawn errors are reported asynchronously through handlers.onError
+			if (this.host && persistent) {
+				const backend = this.host.spawn(id, launch, handlers);
+				return {
+					ok: true,
+					backend: {
+						...backend,
+						kill: () => {
+							this.launches.delete(id);
+							backend.kill();
+						},
+					},
+				};
+			}
 
-			const proc = pty.spawn(shell, [], {
+			const proc = pty.spawn(launch.shell, launch.args, {
 				name: "xterm-256color",
-				cols: config.cols || 80,
-				rows: config.rows || 24,
-				cwd,
-				env: config.env,
+				cols: launch.cols,
+				rows: launch.rows,
+				cwd: launch.cwd,
+				env: launch.env,
 			});
 
 			// Setup listeners
@@ -96,31 +178,50 @@ export class PtyService implements vscode.Disposable {
 			});
 
 			this.instances.set(id, { id, process: proc });
-			return { ok: true };
+			return {
+				ok: true,
+				backend: {
+					write: (data) => proc.write(data),
+					resize: (cols, rows) => proc.resize(cols, rows),
+					kill: () => this.kill(id),
+					getProcessName: () => proc.process,
+					pause: () => proc.pause(),
+					resume: () => proc.resume(),
+				},
+			};
 		} catch (err) {
+			this.launches.delete(id);
 			const msg = err instanceof Error ? err.message : String(err);
 			return { ok: false, error: msg };
 		}
 	}
 
-	/** Write data to PTY */
-	write(id: TerminalId, data: string): void {
-		const instance = this.instances.get(id);
-		if (instance) {
-			instance.process.write(data);
-		}
+	/** How a terminal's shell was launched (undefined if reattached or not spawned here) */
+	getLaunch(id: TerminalId): LaunchDiagnostics | undefined {
+		return this.launches.get(id);
 	}
 
-	/** Resize PTY */
-	resize(id: TerminalId, cols: number, rows: number): void {
-		const instance = this.instances.get(id);
-		if (instance) {
-			instance.process.resize(cols, rows);
+	/** Whether a running terminal's shell is in the detached PTY host */
+	isInHost(id: TerminalId): boolean {
+		return this.host !== undefined && !this.instances.has(id);
+	}
+
+	/** Check for a shell still running in the PTY host from before a reload */
+	hasDetachedSession(id: TerminalId): boolean {
+		return this.host?.hasDetachedSession(id) ?? false;
+	}
+
+	/** Reattach to a detached PTY host session (recent output is replayed as data) */
+	attach(id: TerminalId, handlers: BackendHandlers): SpawnResult {
+		if (!this.host?.hasDetachedSession(id)) {
+			return { ok: false, error: "No detached session to reattach" };
 		}
+		return { ok: true, backend: this.host.attach(id, handlers) };
 	}
 
 	/** Kill PTY process */
-	kill(id: TerminalId): void {
+	private kill(id: TerminalId): void {
+		this.launches.delete(id);
 		const instance = this.instances.get(id);
 		if (instance) {
 			instance.process.kill();
@@ -128,11 +229,14 @@ export class PtyService implements vscode.Disposable {
 		}
 	}
 
-	/** Dispose all PTY processes */
+	/** Dispose all PTY processes (host sessions keep running for the next window) */
 	dispose(): void {
+		this.disposed = true;
+		this.host?.dispose();
 		for (const [id] of this.instances) {
 			this.kill(id);
 		}
 		this.instances.clear();
+		this.launches.clear();
 	}
 }
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+	type ExportCell,
+	type ExportLine,
+	formatScrollbackExport,
+} from "./scrollback-export";
+
+const FG = 0xcccccc;
+const BG = 0x000000;
+const RED = 0xff0000;
+
+interface CellSpec {
+	chars: string;
+	width?: number;
+	fg?: number;
+	bg?: number;
+	bold?: boolean;
+	inverse?: boolean;
+}
+
+function cell(spec: CellSpec): ExportCell {
+	return {
+		getChars: () => spec.chars,
+		getWidth: () => spec.width ?? 1,
+		getFgColor: () => spec.fg ?? FG,
+		getBgColor: () => spec.bg ?? BG,
+		isBold: () => (spec.bold ? 1 : 0),
+		isItalic: () => 0,
+		isUnderline: () => 0,
+		isStrikethrough: () => 0,
+		isInverse: () => (spec.inverse ? 1 : 0),
+		isInvisible: () => 0,
+		isFaint: () => 0,
+	};
+}
+
+/** Build a line from text (padded with empty cells), overriding some cells */
+function line(
+	text: string,
+	overrides: Record<number, Partial<CellSpec>> = {},
+	isWrapped = false,
+	width = 12,
+): ExportLine {
+	const cells = Array.from({ length: width }, (_, x) =>
+		cell({ chars: text[x] ?? "", ...overrides[x] }),
+	);
+	return { length: width, isWrapped, getCell: (x) => cells[x] };
+}
+
+describe("scrollback-export", () => {
+	it("exports plain text, joining wrapped rows and trimming blanks", () => {
+		const lines = [
+			line("hello world!"),
+			line("continued", {}, true),
+			line("a  b"),
+			line(""),
+			line(""),
+		];
+		expect(formatScrollbackExport(lines, "text")).toBe(
+			"hello world!continued\na  b",
+		);
+	});
+
+	it("skips wide character spacer cells", () => {
+		const lines = [
+			line("中_x", { 1: { chars: "", width: 0 }, 0: { width: 2 } }),
+		];
+		expect(formatScrollbackExport(lines, "text")).toBe("中x");
+	});
+
+	it("keeps styles as SGR escapes in ANSI format", () => {
+		const lines = [
+			line("ok error ok", {
+				3: { fg: RED, bold: true },
+				4: { fg: RED, bold: true },
+			}),
+		];
+		expect(formatScrollbackExport(lines, "ansi")).toBe(
+			"ok \x1b[0;1;38;2;255;0;0mer\x1b[0mror ok",
+		);
+	});
+
+	it("treats inverse video as swapped colors", () => {
+		const lines = [line("sel", { 0: { inverse: true } })];
+		expect(formatScrollbackExport(lines, "ansi")).toBe(
+			"\x1b[0;38;2;0;0;0;48;2;204;204;204ms\x1b[0mel",
+		);
+	});
+
+	it("exports escaped HTML with styled spans and default colors", () => {
+		const lines = [line("<a> & b", { 0: { fg: RED } })];
+		const html = formatScrollbackExport(lines, "html", "Build");
+		expect(html).toContain("<title>Build</title>");
+		expect(html).toContain("background-color:#000000;color:#cccccc");
+		expect(html).toContain(
+			'<span style="color:#ff0000">&lt;</span>a&gt; &amp; b</pre>',
+		);
+	});
+});
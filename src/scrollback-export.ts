@@ -0,0 +1,295 @@
+/**
+ * Scrollback export formatting (plain text, ANSI escapes or HTML)
+ * Runs in the webview, which has the cell attributes; extracted for testability
+ * (no DOM or Node dependencies)
+ */
+
+/** Export formats offered by "BooTTY: Export Scrollback" */
+export type ScrollbackExportFormat = "text" | "ansi" | "html";
+
+/** Minimal cell interface (ghostty-web `IBufferCell`; colors are 0xRRGGBB) */
+export interface ExportCell {
+	getChars(): string;
+	getWidth(): number;
+	getFgColor(): number;
+	getBgColor(): number;
+	isBold(): number;
+	isItalic(): number;
+	isUnderline(): number;
+	isStrikethrough(): number;
+	isInverse(): number;
+	isInvisible(): number;
+	isFaint(): number;
+}
+
+/** Minimal line interface (ghostty-web `IBufferLine`) */
+export interface ExportLine {
+	length: number;
+	isWrapped: boolean;
+	getCell(x: number): ExportCell | undefined;
+}
+
+/** Minimal buffer interface (ghostty-web `term.buffer.normal`) */
+export interface ExportBuffer {
+	length: number;
+	getLine(y: number): ExportLine | undefined;
+}
+
+/** Resolved style of a cell (colors undefined = terminal default) */
+interface CellStyle {
+	fg?: number;
+	bg?: number;
+	bold: boolean;
+	italic: boolean;
+	underline: boolean;
+	strikethrough: boolean;
+	faint: boolean;
+}
+
+interface StyledCell {
+	text: string;
+	style: CellStyle;
+}
+
+/** Default colors, detected as the most common fg (of text) and bg */
+interface DefaultColors {
+	fg: number;
+	bg: number;
+}
+
+const DEFAULT_STYLE: CellStyle = {
+	bold: false,
+	italic: false,
+	underline: false,
+	strikethrough: false,
+	faint: false,
+};
+
+// ghostty-web reports resolved RGB colors only, so the defaults are inferred
+function detectDefaultColors(lines: ExportLine[]): DefaultColors {
+	const fgCounts = new Map<number, number>();
+	const bgCounts = new Map<number, number>();
+	const bump = (counts: Map<number, number>, color: number) =>
+		counts.set(color, (counts.get(color) ?? 0) + 1);
+
+	for (const line of lines) {
+		for (let x = 0; x < line.length; x++) {
+			const cell = line.getCell(x);
+			if (!cell) continue;
+			bump(bgCounts, cell.getBgColor());
+			if (cell.getChars().trim() !== "") bump(fgCounts, cell.getFgColor());
+		}
+	}
+
+	const mostCommon = (counts: Map<number, number>, fallback: number) => {
+		let best = fallback;
+		let bestCount = 0;
+		for (const [color, count] of counts) {
+			if (count > bestCount) {
+				best = color;
+				bestCount = count;
+			}
+		}
+		return best;
+	};
+	return { fg: mostCommon(fgCounts, 0xcccccc), bg: mostCommon(bgCounts, 0) };
+}
+
+function getCellStyle(cell: ExportCell, defaults: DefaultColors): CellStyle {
+	let fg = cell.getFgColor();
+	let bg = cell.getBgColor();
+	if (cell.isInverse()) [fg, bg] = [bg, fg];
+	return {
+		fg: fg === defaults.fg ? undefined : fg,
+		bg: bg === defaults.bg ? undefined : bg,
+		bold: cell.isBold() !== 0,
+		italic: cell.isItalic() !== 0,
+		underline: cell.isUnderline() !== 0,
+		strikethrough: cell.isStrikethrough() !== 0,
+		faint: cell.isFaint() !== 0,
+	};
+}
+
+function sameStyle(a: CellStyle, b: CellStyle): boolean {
+	return (
+		a.fg === b.fg &&
+		a.bg === b.bg &&
+		a.bold === b.bold &&
+		a.italic === b.italic &&
+		a.underline === b.underline &&
+		a.strikethrough === b.strikethrough &&
+		a.faint === b.faint
+	);
+}
+
+/**
+ * Convert buffer lines to logical lines of styled cells
+ * Soft-wrapped rows are joined, trailing blank cells (with no background) are
+ * dropped, and trailing empty lines are removed.
+ */
+function toStyledLines(
+	lines: ExportLine[],
+	defaults: DefaultColors,
+): StyledCell[][] {
+	const result: StyledCell[][] = [];
+	for (const line of lines) {
+		const cells: StyledCell[] = [];
+		for (let x = 0; x < line.length; x++) {
+			const cell = line.getCell(x);
+			if (!cell) continue;
+			const width = cell.getWidth();
+			if (width === 0) continue; // Spacer after a wide character
+			const chars = cell.isInvisible() ? "" : cell.getChars();
+			cells.push({ text: chars || " ", style: getCellStyle(cell, defaults) });
+		}
+		if (line.isWrapped && result.length > 0) {
+			result[result.length - 1].push(...cells);
+		} else {
+			result.push(cells);
+		}
+	}
+
+	for (const cells of result) {
+		while (cells.length > 0) {
+			const last = cells[cells.length - 1];
+			if (last.text !== " " || last.style.bg !== undefined) break;
+			cells.pop();
+		}
+	}
+	while (result.length > 0 && result[result.length - 1].length === 0) {
+		result.pop();
+	}
+	return result;
+}
+
+function toRgb(color: number): [number, number, number] {
+	return [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+}
+
+function toHex(color: number): string {
+	return `#${color.toString(16).padStart(6, "0")}`;
+}
+
+function toSgr(style: CellStyle): string {
+	const params = ["0"];
+	if (style.bold) params.push("1");
+	if (style.faint) params.push("2");
+	if (style.italic) params.push("3");
+	if (style.underline) params.push("4");
+	if (style.strikethrough) params.push("9");
+	if (style.fg !== undefined) params.push(`38;2;${toRgb(style.fg).join(";")}`);
+	if (style.bg !== undefined) params.push(`48;2;${toRgb(style.bg).join(";")}`);
+	return `\x1b[${params.join(";")}m`;
+}
+
+function toCss(style: CellStyle): string {
+	const rules: string[] = [];
+	if (style.fg !== undefined) rules.push(`color:${toHex(style.fg)}`);
+	if (style.bg !== undefined) rules.push(`background-color:${toHex(style.bg)}`);
+	if (style.bold) rules.push("font-weight:bold");
+	if (style.italic) rules.push("font-style:italic");
+	if (style.faint) rules.push("opacity:0.6");
+	const decorations = [
+		style.underline ? "underline" : "",
+		style.strikethrough ? "line-through" : "",
+	].filter(Boolean);
+	if (decorations.length > 0) {
+		rules.push(`text-decoration:${decorations.join(" ")}`);
+	}
+	return rules.join(";");
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/** Group a line's cells into runs of identical style */
+function toRuns(cells: StyledCell[]): StyledCell[] {
+	const runs: StyledCell[] = [];
+	for (const cell of cells) {
+		const last = runs[runs.length - 1];
+		if (last && sameStyle(last.style, cell.style)) {
+			last.text += cell.text;
+		} else {
+			runs.push({ ...cell });
+		}
+	}
+	return runs;
+}
+
+function formatAnsiLine(cells: StyledCell[]): string {
+	let output = "";
+	let styled = false;
+	for (const run of toRuns(cells)) {
+		const isDefault = sameStyle(run.style, DEFAULT_STYLE);
+		if (!isDefault || styled) output += toSgr(run.style);
+		styled = !isDefault;
+		output += run.text;
+	}
+	return styled ? `${output}\x1b[0m` : output;
+}
+
+function formatHtmlLine(cells: StyledCell[]): string {
+	return toRuns(cells)
+		.map((run) => {
+			const css = toCss(run.style);
+			const text = escapeHtml(run.text);
+			return css ? `<span style="${css}">${text}</span>` : text;
+		})
+		.join("");
+}
+
+/**
+ * Format buffer lines for export
+ * @param title - Document title (HTML only)
+ */
+export function formatScrollbackExport(
+	lines: ExportLine[],
+	format: ScrollbackExportFormat,
+	title = "Terminal",
+): string {
+	const defaults = detectDefaultColors(lines);
+	const styledLines = toStyledLines(lines, defaults);
+
+	if (format === "text") {
+		return styledLines
+			.map((cells) => cells.map((cell) => cell.text).join(""))
+			.join("\n");
+	}
+	if (format === "ansi") {
+		return styledLines.map(formatAnsiLine).join("\n");
+	}
+
+	const body = styledLines.map(formatHtmlLine).join("\n");
+	return [
+		"<!DOCTYPE html>",
+		"<html>",
+		"<head>",
+		'<meta charset="utf-8">',
+		`<title>${escapeHtml(title)}</title>`,
+		"</head>",
+		`<body style="margin:0;background-color:${toHex(defaults.bg)};color:${toHex(defaults.fg)}">`,
+		`<pre style="margin:0;padding:8px;font-family:monospace">${body}</pre>`,
+		"</body>",
+		"</html>",
+		"",
+	].join("\n");
+}
+
+/** Read a whole buffer (scrollback and screen) and format it for export */
+export function exportScrollback(
+	buffer: ExportBuffer | undefined,
+	format: ScrollbackExportFormat,
+	title?: string,
+): string {
+	const lines: ExportLine[] = [];
+	for (let y = 0; y < (buffer?.length ?? 0); y++) {
+		const line = buffer?.getLine(y);
+		if (line) lines.push(line);
+	}
+	return formatScrollbackExport(lines, format, title);
+}
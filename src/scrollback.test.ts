@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+	extractScrollbackLines,
+	formatRestoredScrollback,
+	type ScrollbackBuffer,
+} from "./scrollback";
+
+function createBuffer(lines: string[]): ScrollbackBuffer {
+	return {
+		length: lines.length,
+		getLine: (y) =>
+			y < lines.length
+				? { translateToString: () => lines[y].trimEnd() }
+				: undefined,
+	};
+}
+
+describe("scrollback", () => {
+	describe("extractScrollbackLines", () => {
+		it("returns an empty array without a buffer", () => {
+			expect(extractScrollbackLines(undefined)).toEqual([]);
+		});
+
+		it("keeps the most recent lines when over the limit", () => {
+			const buffer = createBuffer(["1", "2", "3", "4"]);
+			expect(extractScrollbackLines(buffer, 2)).toEqual(["3", "4"]);
+		});
+
+		it("drops trailing blank rows but keeps blank lines in between", () => {
+			const buffer = createBuffer(["$ ls", "", "a.txt", "$ ", "", ""]);
+			expect(extractScrollbackLines(buffer)).toEqual([
+				"$ ls",
+				"",
+				"a.txt",
+				"$",
+			]);
+		});
+	});
+
+	describe("formatRestoredScrollback", () => {
+		it("returns nothing for empty scrollback", () => {
+			expect(formatRestoredScrollback([])).toBe("");
+		});
+
+		it("dims restored lines and adds a separator", () => {
+			expect(formatRestoredScrollback(["a", "b"])).toBe(
+				"\x1b[90ma\r\nb\x1b[0m\r\n\x1b[90m--- Session restored ---\x1b[0m\r\n",
+			);
+		});
+	});
+});
@@ -0,0 +1,48 @@
+/**
+ * Scrollback persistence helpers shared by the editor and panel webviews
+ * Extracted for testability (no DOM or Node dependencies)
+ */
+
+/** Max lines saved per terminal (keeps webview state small) */
+const MAX_SCROLLBACK_LINES = 5000;
+
+/** Minimal buffer interface (ghostty-web `term.buffer.active`) */
+export interface ScrollbackBuffer {
+	length: number;
+	getLine(
+		y: number,
+	): { translateToString(trimRight: boolean): string } | undefined;
+}
+
+/**
+ * Extract the most recent lines of a terminal buffer as plain text
+ * Trailing blank lines (empty rows below the prompt) are dropped.
+ */
+export function extractScrollbackLines(
+	buffer: ScrollbackBuffer | undefined,
+	maxLines = MAX_SCROLLBACK_LINES,
+): string[] {
+	if (!buffer) return [];
+
+	const lines: string[] = [];
+	const start = Math.max(0, buffer.length - maxLines);
+	for (let y = start; y < buffer.length; y++) {
+		const line = buffer.getLine(y);
+		if (line) {
+			lines.push(line.translateToString(true));
+		}
+	}
+	while (lines.length > 0 && lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+	return lines;
+}
+
+/** Format saved lines for writing above a new prompt (dimmed, with a separator) */
+export function formatRestoredScrollback(lines: string[]): string {
+	if (lines.length === 0) return "";
+	return (
+		`\x1b[90m${lines.join("\r\n")}\x1b[0m\r\n` +
+		"\x1b[90m--- Session restored ---\x1b[0m\r\n"
+	);
+}
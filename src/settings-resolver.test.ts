@@ -1,5 +1,9 @@
 import { describe, expect, it } from "vitest";
-import { type ConfigGetter, resolveDisplaySettings } from "./settings-resolver";
+import {
+	type ConfigGetter,
+	resolveDisplaySettings,
+	resolveLinkSettings,
+} from "./settings-resolver";
 
 /**
  * Mock config getter for testing
@@ -99,6 +103,33 @@ describe("resolveDisplaySettings", () => {
 		});
 	});
 
+	describe("scrollback", () => {
+		it("uses bootty.scrollback when valid", () => {
+			const config = createMockConfig({ bootty: { scrollback: 50000 } });
+			expect(resolveDisplaySettings(config).scrollback).toBe(50000);
+		});
+
+		it("allows disabling scrollback with 0", () => {
+			const config = createMockConfig({ bootty: { scrollback: 0 } });
+			expect(resolveDisplaySettings(config).scrollback).toBe(0);
+		});
+
+		it("defaults when unset or negative and caps huge values", () => {
+			expect(
+				resolveDisplaySettings(createMockConfig({ bootty: {} })).scrollback,
+			).toBe(10000);
+			expect(
+				resolveDisplaySettings(createMockConfig({ bootty: { scrollback: -1 } }))
+					.scrollback,
+			).toBe(10000);
+			expect(
+				resolveDisplaySettings(
+					createMockConfig({ bootty: { scrollback: 1e9 } }),
+				).scrollback,
+			).toBe(1000000);
+		});
+	});
+
 	describe("combined settings", () => {
 		it("resolves font family and size independently", () => {
 			const config = createMockConfig({
@@ -112,3 +143,51 @@ describe("resolveDisplaySettings", () => {
 		});
 	});
 });
+
+describe("resolveLinkSettings", () => {
+	it("uses the default schemes, external opening and Ctrl/Cmd", () => {
+		const settings = resolveLinkSettings(createMockConfig({ bootty: {} }));
+		expect(settings.allowedSchemes.has("https")).toBe(true);
+		expect(settings.allowedSchemes.has("vscode")).toBe(false);
+		expect(settings.openBehavior).toEqual({});
+		expect(settings.modifier).toBe("ctrlCmd");
+	});
+
+	it("adds configured schemes, normalized", () => {
+		const config = createMockConfig({
+			bootty: { "links.allowedSchemes": ["vscode", " JIRA: ", 42, ""] },
+		});
+		const { allowedSchemes } = resolveLinkSettings(config);
+		expect(allowedSchemes.has("vscode")).toBe(true);
+		expect(allowedSchemes.has("jira")).toBe(true);
+		expect(allowedSchemes.has("")).toBe(false);
+	});
+
+	it("never allows schemes that run code", () => {
+		const config = createMockConfig({
+			bootty: { "links.allowedSchemes": ["command", "javascript"] },
+		});
+		const { allowedSchemes } = resolveLinkSettings(config);
+		expect(allowedSchemes.has("command")).toBe(false);
+		expect(allowedSchemes.has("javascript")).toBe(false);
+	});
+
+	it("keeps valid open behaviors and modifiers only", () => {
+		const config = createMockConfig({
+			bootty: {
+				"links.openBehavior": {
+					HTTPS: "simpleBrowser",
+					jira: "ask",
+					mailto: "nowhere",
+				},
+				"links.activationModifier": "shift",
+			},
+		});
+		const settings = resolveLinkSettings(config);
+		expect(settings.openBehavior).toEqual({
+			https: "simpleBrowser",
+			jira: "ask",
+		});
+		expect(settings.modifier).toBe("ctrlCmd");
+	});
+});
@@ -1,4 +1,4 @@
-import type { DisplaySettings } from "./types/messages";
+import type { DisplaySettings, LinkModifier } from "./types/messages";
 
 /**
  * Configuration getter interface for testing
@@ -8,8 +8,13 @@ export interface ConfigGetter {
 	get<T>(section: string, key: string): T | undefined;
 }
 
+/** Scrollback lines kept per terminal (ghostty-web default) and upper bound */
+const DEFAULT_SCROLLBACK = 10000;
+const MAX_SCROLLBACK = 1000000;
+
 /**
  * Resolve display settings with priority chain: bootty.* > editor.* > defaults
+ * (scrollback comes from bootty.scrollback only)
  * Extracted for testability
  */
 export function resolveDisplaySettings(config: ConfigGetter): DisplaySettings {
@@ -23,7 +28,14 @@ export function resolveDisplaySettings(config: ConfigGetter): DisplaySettings {
 		config.get<number>("editor", "fontSize") ||
 		15;
 
-	return { fontFamily, fontSize };
+	// Invalid or negative values fall back to ghostty-web's default
+	const configuredScrollback = config.get<number>("bootty", "scrollback");
+	const scrollback =
+		typeof configuredScrollback === "number" && configuredScrollback >= 0
+			? Math.min(Math.floor(configuredScrollback), MAX_SCROLLBACK)
+			: DEFAULT_SCROLLBACK;
+
+	return { fontFamily, fontSize, scrollback };
 }
 
 /**
@@ -40,3 +52,86 @@ export function createVSCodeConfigGetter(
 		},
 	};
 }
+
+/** How a clicked URL is opened */
+export type LinkOpenBehavior = "external" | "simpleBrowser" | "ask";
+
+/** Resolved link settings (bootty.links.*) */
+export interface LinkSettings {
+	allowedSchemes: Set<string>;
+	/** Per-scheme open behavior; unlisted schemes open externally */
+	openBehavior: Record<string, LinkOpenBehavior>;
+	modifier: LinkModifier;
+}
+
+/** URL schemes opened without configuration */
+const DEFAULT_URL_SCHEMES = [
+	"http",
+	"https",
+	"mailto",
+	"ftp",
+	"ssh",
+	"git",
+	"tel",
+];
+
+/**
+ * Schemes that can't be allowed: terminal output is untrusted, and these run
+ * code or commands when opened
+ */
+export const BLOCKED_URL_SCHEMES = new Set([
+	"command",
+	"javascript",
+	"vbscript",
+	"data",
+]);
+
+const LINK_OPEN_BEHAVIORS: LinkOpenBehavior[] = [
+	"external",
+	"simpleBrowser",
+	"ask",
+];
+const LINK_MODIFIERS: LinkModifier[] = ["ctrlCmd", "alt", "none"];
+
+/**
+ * Resolve link settings; invalid entries are ignored
+ * Scheme names are matched case-insensitively (without the trailing colon).
+ */
+export function resolveLinkSettings(config: ConfigGetter): LinkSettings {
+	const normalize = (scheme: string) =>
+		scheme.trim().toLowerCase().replace(/:$/, "");
+
+	const allowedSchemes = new Set(DEFAULT_URL_SCHEMES);
+	const extraSchemes = config.get<unknown>("bootty", "links.allowedSchemes");
+	if (Array.isArray(extraSchemes)) {
+		for (const scheme of extraSchemes) {
+			if (typeof scheme !== "string") continue;
+			const name = normalize(scheme);
+			if (name && !BLOCKED_URL_SCHEMES.has(name)) allowedSchemes.add(name);
+		}
+	}
+
+	const openBehavior: Record<string, LinkOpenBehavior> = {};
+	const configuredBehavior = config.get<unknown>(
+		"bootty",
+		"links.openBehavior",
+	);
+	if (configuredBehavior && typeof configuredBehavior === "object") {
+		for (const [scheme, behavior] of Object.entries(configuredBehavior)) {
+			if (LINK_OPEN_BEHAVIORS.includes(behavior)) {
+				openBehavior[normalize(scheme)] = behavior;
+			}
+		}
+	}
+
+	const configuredModifier = config.get<LinkModifier>(
+		"bootty",
+		"links.activationModifier",
+	);
+	const modifier =
+		configuredModifier && LINK_MODIFIERS.includes(configuredModifier)
+			? configuredModifier
+			: "ctrlCmd";
+
+	return { allowedSchemes, openBehavior, modifier };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { createOscParser } from "./osc-parser";
+import {
+	createCommandTracker,
+	createPromptMarkSplitter,
+	getShellIntegrationLaunch,
+	parsePromptMark,
+	stripTerminalEscapes,
+} from "./shell-integration";
+
+const A = "\x1b]133;A\x07";
+const B = "\x1b]133;B\x07";
+const C = "\x1b]133;C\x07";
+const D = (code: number) => `\x1b]133;D;${code}\x07`;
+
+/** A command tracker fed through its OSC parser, like the terminal manager does */
+function createFedTracker() {
+	const parser = createOscParser();
+	const tracker = createCommandTracker(parser);
+	return {
+		tracker,
+		feed(data: string) {
+			parser.feed(data);
+			return tracker.feed(data);
+		},
+	};
+}
+
+/** Split chunks at their prompt marks, like the prompt navigator does */
+function createFedSplitter() {
+	const parser = createOscParser();
+	const splitter = createPromptMarkSplitter(parser);
+	return (data: string) => {
+		parser.feed(data);
+		return splitter.split(data);
+	};
+}
+
+describe("shell-integration", () => {
+	describe("parsePromptMark", () => {
+		it("parses all mark kinds", () => {
+			expect(
+				["A", "B", "C", "D"].map((kind) => parsePromptMark(kind, 0)),
+			).toEqual(["A", "B", "C", "D"].map((kind) => ({ kind, index: 0 })));
+			expect(parsePromptMark("P;k=i", 0)).toBeUndefined();
+		});
+
+		it("parses exit codes from D marks", () => {
+			expect(parsePromptMark("D;2", 9)).toEqual({
+				kind: "D",
+				exitCode: 2,
+				index: 9,
+			});
+			expect(parsePromptMark("D", 0)?.exitCode).toBeUndefined();
+		});
+	});
+
+	describe("createPromptMarkSplitter", () => {
+		it("returns plain output whole", () => {
+			expect(createFedSplitter()("hello\r\n")).toEqual([{ text: "hello\r\n" }]);
+		});
+
+		it("ends each segment right after its mark", () => {
+			const segments = createFedSplitter()(`out${D(0)}${A}$ \x1b]133;B\x1b\\`);
+			expect(segments.map((s) => s.text)).toEqual([
+				`out${D(0)}`,
+				A,
+				"$ \x1b]133;B\x1b\\",
+			]);
+			expect(segments.map((s) => s.mark?.kind)).toEqual(["D", "A", "B"]);
+		});
+
+		it("splits at marks that began in an earlier chunk", () => {
+			const split = createFedSplitter();
+			expect(split("out\x1b]13")).toEqual([{ text: "out\x1b]13" }]);
+			expect(split("3;D;1\x07$ ")).toEqual([
+				{ text: "3;D;1\x07", mark: { kind: "D", exitCode: 1, index: 6 } },
+				{ text: "$ " },
+			]);
+		});
+	});
+
+	describe("stripTerminalEscapes", () => {
+		it("removes escapes and applies backspaces", () => {
+			expect(stripTerminalEscapes("\x1b[32mgit\x1b[0m stas\bt\r\n")).toBe(
+				"git stat\n",
+			);
+		});
+	});
+
+	describe("createCommandTracker", () => {
+		it("tracks command text, output and exit code", () => {
+			const { tracker, feed } = createFedTracker();
+			expect(tracker.active).toBe(false);
+
+			const finished = feed(`${A}$ ${B}echo hi\r\n${C}hi\r\n${D(0)}${A}$ ${B}`);
+			expect(tracker.active).toBe(true);
+			expect(finished).toHaveLength(1);
+			expect(finished[0]).toMatchObject({
+				command: "echo hi",
+				output: "hi",
+				exitCode: 0,
+			});
+			expect(tracker.getLastFinishedCommand()).toBe(finished[0]);
+		});
+
+		it("handles commands split across chunks", () => {
+			const { feed } = createFedTracker();
+			feed(`${A}$ ${B}false`);
+			feed(`\r\n${C}`);
+			expect(feed(D(1))[0]).toMatchObject({
+				command: "false",
+				exitCode: 1,
+			});
+		});
+
+		it("handles marks split across chunks", () => {
+			const { tracker, feed } = createFedTracker();
+			const data = `${A}$ ${B}echo hi\r\n${C}hi\r\n${D(3)}`;
+			const finished = [...data].flatMap((char) => feed(char));
+			expect(finished).toHaveLength(1);
+			expect(finished[0]).toMatchObject({
+				command: "echo hi",
+				output: "hi",
+				exitCode: 3,
+				end: data.length,
+			});
+			expect(tracker.getLastFinishedCommand()).toBe(finished[0]);
+		});
+
+		it("ignores empty prompts without a command", () => {
+			const { tracker, feed } = createFedTracker();
+			expect(feed(`${A}$ ${B}\r\n${D(0)}${A}$ ${B}`)).toEqual([]);
+			expect(tracker.getLastFinishedCommand()).toBeUndefined();
+		});
+	});
+
+	describe("getShellIntegrationLaunch", () => {
+		it("uses an init file for bash", () => {
+			expect(getShellIntegrationLaunch("/bin/bash", "/s", ["-x"], {})).toEqual({
+				args: ["--init-file", "/s/bootty.bash", "-x"],
+				env: { BOOTTY_SHELL_INTEGRATION: "1" },
+			});
+		});
+
+		it("runs bash login shells through the init file", () => {
+			expect(
+				getShellIntegrationLaunch("/bin/bash", "/s", ["--login", "-x"], {}),
+			).toEqual({
+				args: ["--init-file", "/s/bootty.bash", "-x"],
+				env: { BOOTTY_SHELL_INTEGRATION: "1", BOOTTY_SHELL_LOGIN: "1" },
+			});
+			expect(
+				getShellIntegrationLaunch("/bin/bash", "/s", ["-l"], {})?.args,
+			).toEqual(["--init-file", "/s/bootty.bash"]);
+			expect(
+				getShellIntegrationLaunch("/bin/bash", "/s", ["-il"], {})?.args,
+			).toEqual(["--init-file", "/s/bootty.bash", "-i"]);
+		});
+
+		it("quotes the fish script path", () => {
+			expect(
+				getShellIntegrationLaunch("/usr/bin/fish", "/it's\\here", ["-l"], {}),
+			).toEqual({
+				args: ["--init-command", "source '/it\\'s\\\\here/bootty.fish'", "-l"],
+				env: { BOOTTY_SHELL_INTEGRATION: "1" },
+			});
+		});
+
+		it("redirects ZDOTDIR for zsh and remembers the user's", () => {
+			const launch = getShellIntegrationLaunch("/usr/bin/zsh", "/s", ["-l"], {
+				HOME: "/home/me",
+			});
+			expect(launch?.args).toEqual(["-l"]);
+			expect(launch?.env).toMatchObject({
+				ZDOTDIR: "/s/zsh",
+				BOOTTY_USER_ZDOTDIR: "/home/me",
+			});
+		});
+
+		it("returns undefined for unsupported shells", () => {
+			expect(
+				getShellIntegrationLaunch("/bin/sh", "/s", [], {}),
+			).toBeUndefined();
+			expect(
+				getShellIntegrationLaunch("C:\\Windows\\cmd.exe", "/s", [], {}),
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,326 @@
+/**
+ * Shell integration (OSC 133 prompt marks)
+ * Pure parsing and command tracking shared by the extension host and webviews.
+ * Marks are found by an OSC parser (so sequences split across chunks count).
+ * Must not import Node modules (bundled into webview scripts).
+ */
+
+import type { OscParser } from "./osc-parser";
+
+/** OSC 133 mark kinds: prompt start, command start, output start, command finished */
+export type PromptMarkKind = "A" | "B" | "C" | "D";
+
+/** A prompt mark found in PTY output */
+export interface PromptMark {
+	kind: PromptMarkKind;
+	exitCode?: number; // Only for "D" marks that report a status
+	index: number; // Offset in the chunk just past the end of the sequence
+}
+
+/** A chunk of output, ending right after a prompt mark if it has one */
+export interface PromptMarkSegment {
+	text: string;
+	mark?: PromptMark;
+}
+
+/** Splits output at the prompt marks an OSC parser finds in it */
+export interface PromptMarkSplitter {
+	/** Split a chunk the parser has just been fed */
+	split(data: string): PromptMarkSegment[];
+}
+
+// ANSI escape sequences (CSI, OSC, and two-character escapes) for text extraction
+const ANSI_PATTERN =
+	/\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Parse the parameters of an OSC 133 sequence (`<kind>[;<params>]`)
+ * @param index - Offset just past the sequence in its chunk
+ * @returns undefined for kinds other than A-D
+ */
+export function parsePromptMark(
+	params: string,
+	index: number,
+): PromptMark | undefined {
+	const [kind, exitStatus] = params.split(";");
+	if (kind !== "A" && kind !== "B" && kind !== "C" && kind !== "D") {
+		return undefined;
+	}
+	const mark: PromptMark = { kind, index };
+	if (kind === "D" && exitStatus) {
+		const exitCode = Number.parseInt(exitStatus, 10);
+		if (!Number.isNaN(exitCode)) {
+			mark.exitCode = exitCode;
+		}
+	}
+	return mark;
+}
+
+/**
+ * Collect prompt marks from an OSC parser's OSC 133 sequences and split
+ * each chunk it is fed so every segment ends right after a mark. Lets the
+ * webview record the cursor row exactly where each mark was written.
+ * Call split() after the parser's feed() for every chunk.
+ */
+export function createPromptMarkSplitter(
+	parser: OscParser,
+): PromptMarkSplitter {
+	let marks: PromptMark[] = [];
+	parser.register(133, (params, end) => {
+		const mark = parsePromptMark(params, end);
+		if (mark) marks.push(mark);
+	});
+
+	return {
+		split(data) {
+			if (marks.length === 0) return [{ text: data }];
+			const segments: PromptMarkSegment[] = [];
+			let start = 0;
+			for (const mark of marks) {
+				segments.push({ text: data.slice(start, mark.index), mark });
+				start = mark.index;
+			}
+			if (start < data.length) {
+				segments.push({ text: data.slice(start) });
+			}
+			marks = [];
+			return segments;
+		},
+	};
+}
+
+/** Convert raw terminal output to plain text (strip escapes, apply backspaces) */
+export function stripTerminalEscapes(data: string): string {
+	const text = data.replace(ANSI_PATTERN, "").replace(/\r\n/g, "\n");
+	let result = "";
+	for (const char of text) {
+		if (char === "\b") {
+			result = result.slice(0, -1);
+		} else if (char !== "\r" && char !== "\x07") {
+			result += char;
+		}
+	}
+	return result;
+}
+
+/** A command tracked via shell integration marks */
+export interface ShellCommand {
+	promptStart: number; // Stream offset of the "A" mark
+	commandStart?: number; // Stream offset of the "B" mark (user input begins)
+	outputStart?: number; // Stream offset of the "C" mark (command executing)
+	end?: number; // Stream offset of the "D" mark
+	command: string; // Command line as echoed by the shell
+	exitCode?: number;
+	output: string; // Plain-text output (capped)
+}
+
+/** Tracks commands for one terminal from its PTY output stream */
+export interface CommandTracker {
+	/**
+	 * Process a chunk of PTY output, after the tracker's OSC parser has been
+	 * fed it; returns commands that finished in it
+	 */
+	feed(data: string): ShellCommand[];
+	/** All tracked commands (oldest first, capped) */
+	getCommands(): readonly ShellCommand[];
+	/** Most recent command that finished executing */
+	getLastFinishedCommand(): ShellCommand | undefined;
+	/** True once any OSC 133 mark has been seen */
+	readonly active: boolean;
+}
+
+/** Limits to keep per-terminal memory bounded */
+const MAX_TRACKED_COMMANDS = 500;
+const MAX_COMMAND_OUTPUT_CHARS = 1_000_000;
+
+/** Create a command tracker for one terminal, taking marks from its OSC parser */
+export function createCommandTracker(parser: OscParser): CommandTracker {
+	const marks = createPromptMarkSplitter(parser);
+	const commands: ShellCommand[] = [];
+	let offset = 0; // Total characters seen so far
+	let current: ShellCommand | undefined;
+	let phase: "idle" | "prompt" | "input" | "output" = "idle";
+	let rawInput = ""; // Echoed text between B and C
+	let rawOutput = ""; // Output between C and D
+	let active = false;
+
+	function appendText(text: string): void {
+		if (phase === "input") {
+			rawInput += text;
+		} else if (
+			phase === "output" &&
+			rawOutput.length < MAX_COMMAND_OUTPUT_CHARS
+		) {
+			rawOutput += text.slice(0, MAX_COMMAND_OUTPUT_CHARS - rawOutput.length);
+		}
+	}
+
+	function handleMark(
+		mark: PromptMark,
+		position: number,
+	): ShellCommand | undefined {
+		active = true;
+		switch (mark.kind) {
+			case "A": {
+				current = { promptStart: position, command: "", output: "" };
+				commands.push(current);
+				if (commands.length > MAX_TRACKED_COMMANDS) {
+					commands.shift();
+				}
+				phase = "prompt";
+				return undefined;
+			}
+			case "B":
+				if (current) {
+					current.commandStart = position;
+				}
+				rawInput = "";
+				phase = "input";
+				return undefined;
+			case "C":
+				if (current) {
+					current.outputStart = position;
+					current.command = stripTerminalEscapes(rawInput).trim();
+				}
+				rawOutput = "";
+				phase = "output";
+				return undefined;
+			case "D": {
+				const finished = current;
+				phase = "idle";
+				current = undefined;
+				// A "D" without "C" is an empty prompt (e.g., Enter on blank line)
+				if (!finished || finished.outputStart === undefined) {
+					return undefined;
+				}
+				finished.end = position;
+				finished.exitCode = mark.exitCode;
+				finished.output = stripTerminalEscapes(rawOutput).replace(/\n+$/, "");
+				return finished;
+			}
+		}
+	}
+
+	return {
+		feed(data: string): ShellCommand[] {
+			const finished: ShellCommand[] = [];
+			for (const segment of marks.split(data)) {
+				// Includes the mark itself (possibly begun in an earlier chunk),
+				// which stripTerminalEscapes removes with the other escapes
+				appendText(segment.text);
+				offset += segment.text.length;
+				if (segment.mark) {
+					const command = handleMark(segment.mark, offset);
+					if (command) finished.push(command);
+				}
+			}
+			return finished;
+		},
+
+		getCommands(): readonly ShellCommand[] {
+			return commands;
+		},
+
+		getLastFinishedCommand(): ShellCommand | undefined {
+			for (let i = commands.length - 1; i >= 0; i--) {
+				if (commands[i].end !== undefined) return commands[i];
+			}
+			return undefined;
+		},
+
+		get active(): boolean {
+			return active;
+		},
+	};
+}
+
+/** Shells with bundled integration scripts */
+type IntegratedShell = "bash" | "zsh" | "fish";
+
+/** Detect a supported shell from its executable path */
+function detectIntegratedShell(shellPath: string): IntegratedShell | undefined {
+	const name = shellPath
+		.split(/[\\/]/)
+		.pop()
+		?.replace(/\.exe$/i, "")
+		.toLowerCase();
+	if (name === "bash" || name === "zsh" || name === "fish") {
+		return name;
+	}
+	return undefined;
+}
+
+/** Spawn arguments and extra environment that inject the integration script */
+export interface ShellIntegrationLaunch {
+	args: string[]; // The user's arguments, adjusted to load the script
+	env: Record<string, string>;
+}
+
+/** Whether an argument makes bash a login shell (-l, --login, or e.g. -il) */
+function isLoginArg(arg: string): boolean {
+	return arg === "--login" || /^-[a-z]*l[a-z]*$/i.test(arg);
+}
+
+/** Quote text as a fish single-quoted string */
+function quoteFish(text: string): string {
+	return `'${text.replace(/[\\']/g, "\\$&")}'`;
+}
+
+/**
+ * Build spawn args/env that load the bundled integration script for a shell.
+ * The scripts source the user's normal startup files first, so prompts,
+ * aliases and PATH are unchanged. Returns undefined for unsupported shells.
+ * @param args - The user's shell arguments
+ * @param env - The shell's full environment (process env plus overrides)
+ */
+export function getShellIntegrationLaunch(
+	shellPath: string,
+	scriptsDir: string,
+	args: string[],
+	env: Record<string, string | undefined>,
+): ShellIntegrationLaunch | undefined {
+	switch (detectIntegratedShell(shellPath)) {
+		case "bash": {
+			// bash ignores --init-file in login shells, so the script runs the
+			// login startup files itself instead of ~/.bashrc
+			const login = args.some(isLoginArg);
+			return {
+				args: [
+					"--init-file",
+					`${scriptsDir}/bootty.bash`,
+					...args.flatMap((arg) => {
+						if (!isLoginArg(arg)) return [arg];
+						// Keep other options combined with -l (e.g. -il)
+						const rest = arg.replace(/l/g, "");
+						return rest.startsWith("--") || rest === "-" ? [] : [rest];
+					}),
+				],
+				env: {
+					BOOTTY_SHELL_INTEGRATION: "1",
+					...(login && { BOOTTY_SHELL_LOGIN: "1" }),
+				},
+			};
+		}
+		case "zsh":
+			// zsh reads startup files from ZDOTDIR; ours chain to the user's
+			return {
+				args,
+				env: {
+					BOOTTY_SHELL_INTEGRATION: "1",
+					BOOTTY_USER_ZDOTDIR: env.ZDOTDIR || env.HOME || "",
+					ZDOTDIR: `${scriptsDir}/zsh`,
+				},
+			};
+		case "fish":
+			return {
+				args: [
+					"--init-command",
+					`source ${quoteFish(`${scriptsDir}/bootty.fish`)}`,
+					...args,
+				],
+				env: { BOOTTY_SHELL_INTEGRATION: "1" },
+			};
+		default:
+			return undefined;
+	}
+}
@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+	clampSplitRatio,
+	containsPane,
+	createPaneLayout,
+	getAdjacentPaneId,
+	getPaneIds,
+	isPaneLayout,
+	planSplitRestore,
+	removePane,
+	splitPane,
+} from "./split-layout";
+import type { PaneLayout, TerminalId } from "./types/terminal";
+
+const A = "a" as TerminalId;
+const B = "b" as TerminalId;
+const C = "c" as TerminalId;
+const D = "d" as TerminalId;
+
+describe("split-layout", () => {
+	describe("splitPane", () => {
+		it("splits a single pane into two", () => {
+			const layout = splitPane(createPaneLayout(A), A, B, "horizontal");
+			expect(layout).toEqual({
+				type: "split",
+				direction: "horizontal",
+				ratio: 0.5,
+				first: { type: "pane", id: A },
+				second: { type: "pane", id: B },
+			});
+		});
+
+		it("splits a nested pane without touching siblings", () => {
+			let layout = splitPane(createPaneLayout(A), A, B, "horizontal");
+			layout = splitPane(layout, B, C, "vertical", 0.3);
+			expect(getPaneIds(layout)).toEqual([A, B, C]);
+			expect(layout.type === "split" && layout.second).toMatchObject({
+				type: "split",
+				direction: "vertical",
+				ratio: 0.3,
+			});
+		});
+
+		it("returns layout unchanged when target is missing", () => {
+			const layout = createPaneLayout(A);
+			expect(splitPane(layout, B, C, "horizontal")).toEqual(layout);
+		});
+
+		it("clamps ratio", () => {
+			const layout = splitPane(createPaneLayout(A), A, B, "horizontal", 5);
+			expect(layout.type === "split" && layout.ratio).toBe(0.9);
+		});
+	});
+
+	describe("removePane", () => {
+		it("returns undefined when removing the last pane", () => {
+			expect(removePane(createPaneLayout(A), A)).toBeUndefined();
+		});
+
+		it("collapses split so sibling takes the whole area", () => {
+			const layout = splitPane(createPaneLayout(A), A, B, "horizontal");
+			expect(removePane(layout, A)).toEqual({ type: "pane", id: B });
+		});
+
+		it("keeps the rest of a nested layout intact", () => {
+			let layout = splitPane(createPaneLayout(A), A, B, "horizontal");
+			layout = splitPane(layout, B, C, "vertical");
+			const result = removePane(layout, B);
+			expect(result && getPaneIds(result)).toEqual([A, C]);
+			expect(result && containsPane(result, B)).toBe(false);
+		});
+	});
+
+	describe("getAdjacentPaneId", () => {
+		const layout = splitPane(
+			splitPane(createPaneLayout(A), A, B, "horizontal"),
+			B,
+			C,
+			"vertical",
+		);
+
+		it("moves forward and wraps around", () => {
+			expect(getAdjacentPaneId(layout, A, 1)).toBe(B);
+			expect(getAdjacentPaneId(layout, C, 1)).toBe(A);
+		});
+
+		it("moves backward and wraps around", () => {
+			expect(getAdjacentPaneId(layout, A, -1)).toBe(C);
+		});
+
+		it("returns undefined for unknown panes", () => {
+			expect(getAdjacentPaneId(layout, D, 1)).toBeUndefined();
+		});
+	});
+
+	describe("planSplitRestore", () => {
+		it("returns no steps for a single pane", () => {
+			expect(planSplitRestore(createPaneLayout(A))).toEqual([]);
+		});
+
+		it("rebuilds an arbitrary layout when replayed", () => {
+			// [[A | B] / [C | D]] with custom ratios
+			const saved: PaneLayout = {
+				type: "split",
+				direction: "vertical",
+				ratio: 0.4,
+				first: {
+					type: "split",
+					direction: "horizontal",
+					ratio: 0.7,
+					first: createPaneLayout(A),
+					second: createPaneLayout(B),
+				},
+				second: {
+					type: "split",
+					direction: "horizontal",
+					ratio: 0.25,
+					first: createPaneLayout(C),
+					second: createPaneLayout(D),
+				},
+			};
+
+			let rebuilt = createPaneLayout(A);
+			for (const step of planSplitRestore(saved)) {
+				rebuilt = splitPane(
+					rebuilt,
+					step.targetId,
+					step.newId,
+					step.direction,
+					step.ratio,
+				);
+			}
+			expect(rebuilt).toEqual(saved);
+		});
+	});
+
+	describe("isPaneLayout", () => {
+		it("accepts valid layouts", () => {
+			expect(isPaneLayout(createPaneLayout(A))).toBe(true);
+			expect(
+				isPaneLayout(splitPane(createPaneLayout(A), A, B, "vertical")),
+			).toBe(true);
+		});
+
+		it("rejects malformed data", () => {
+			expect(isPaneLayout(undefined)).toBe(false);
+			expect(isPaneLayout({ type: "pane" })).toBe(false);
+			expect(
+				isPaneLayout({
+					type: "split",
+					direction: "diagonal",
+					ratio: 0.5,
+					first: { type: "pane", id: "a" },
+					second: { type: "pane", id: "b" },
+				}),
+			).toBe(false);
+		});
+	});
+
+	describe("clampSplitRatio", () => {
+		it("falls back to an even split for invalid ratios", () => {
+			expect(clampSplitRatio(Number.NaN)).toBe(0.5);
+		});
+
+		it("keeps ratios within bounds", () => {
+			expect(clampSplitRatio(0)).toBe(0.1);
+			expect(clampSplitRatio(0.6)).toBe(0.6);
+		});
+	});
+});
@@ -0,0 +1,142 @@
+/**
+ * Split pane layout utilities for panel tabs
+ * Pure tree operations shared by the panel webview and the extension (for restore)
+ */
+
+import type { PaneLayout, SplitDirection, TerminalId } from "./types/terminal";
+
+/** Smallest fraction of a split a pane can be resized to */
+const MIN_SPLIT_RATIO = 0.1;
+
+/** Clamp a split ratio so neither pane collapses */
+export function clampSplitRatio(ratio: number): number {
+	if (!Number.isFinite(ratio)) return 0.5;
+	return Math.min(1 - MIN_SPLIT_RATIO, Math.max(MIN_SPLIT_RATIO, ratio));
+}
+
+/** Create a single-pane layout */
+export function createPaneLayout(id: TerminalId): PaneLayout {
+	return { type: "pane", id };
+}
+
+/** Get pane IDs in visual order (left-to-right, top-to-bottom) */
+export function getPaneIds(layout: PaneLayout): TerminalId[] {
+	if (layout.type === "pane") {
+		return [layout.id];
+	}
+	return [...getPaneIds(layout.first), ...getPaneIds(layout.second)];
+}
+
+/** Check if a pane is part of a layout */
+export function containsPane(layout: PaneLayout, id: TerminalId): boolean {
+	if (layout.type === "pane") {
+		return layout.id === id;
+	}
+	return containsPane(layout.first, id) || containsPane(layout.second, id);
+}
+
+/**
+ * Split an existing pane, placing the new pane after it (right or below)
+ * Returns the original layout unchanged if the target pane is not found
+ */
+export function splitPane(
+	layout: PaneLayout,
+	targetId: TerminalId,
+	newId: TerminalId,
+	direction: SplitDirection,
+	ratio = 0.5,
+): PaneLayout {
+	if (layout.type === "pane") {
+		if (layout.id !== targetId) return layout;
+		return {
+			type: "split",
+			direction,
+			ratio: clampSplitRatio(ratio),
+			first: layout,
+			second: createPaneLayout(newId),
+		};
+	}
+	return {
+		...layout,
+		first: splitPane(layout.first, targetId, newId, direction, ratio),
+		second: splitPane(layout.second, targetId, newId, direction, ratio),
+	};
+}
+
+/**
+ * Remove a pane; its sibling takes over the parent split's area
+ * Returns undefined when the last pane is removed
+ */
+export function removePane(
+	layout: PaneLayout,
+	id: TerminalId,
+): PaneLayout | undefined {
+	if (layout.type === "pane") {
+		return layout.id === id ? undefined : layout;
+	}
+	const first = removePane(layout.first, id);
+	const second = removePane(layout.second, id);
+	if (!first) return second;
+	if (!second) return first;
+	return { ...layout, first, second };
+}
+
+/** Get the pane `offset` steps away from `id` in visual order (wraps around) */
+export function getAdjacentPaneId(
+	layout: PaneLayout,
+	id: TerminalId,
+	offset: number,
+): TerminalId | undefined {
+	const ids = getPaneIds(layout);
+	const index = ids.indexOf(id);
+	if (index === -1) return undefined;
+	return ids[(((index + offset) % ids.length) + ids.length) % ids.length];
+}
+
+/** A single split operation needed to rebuild a saved layout */
+export interface SplitStep {
+	/** Saved ID of the pane being split */
+	targetId: TerminalId;
+	/** Saved ID of the pane created by the split */
+	newId: TerminalId;
+	direction: SplitDirection;
+	ratio: number;
+}
+
+/**
+ * Plan the sequence of splits that rebuilds a saved layout from its first pane.
+ * Splitting pane X creates [X, new]; each side is then subdivided recursively,
+ * so replaying the steps in order reproduces the original tree.
+ */
+export function planSplitRestore(layout: PaneLayout): SplitStep[] {
+	const steps: SplitStep[] = [];
+	const visit = (node: PaneLayout): void => {
+		if (node.type === "pane") return;
+		steps.push({
+			targetId: getPaneIds(node.first)[0],
+			newId: getPaneIds(node.second)[0],
+			direction: node.direction,
+			ratio: node.ratio,
+		});
+		visit(node.first);
+		visit(node.second);
+	};
+	visit(layout);
+	return steps;
+}
+
+/** Validate untrusted layout data (e.g., from persisted webview state) */
+export function isPaneLayout(value: unknown): value is PaneLayout {
+	if (!value || typeof value !== "object") return false;
+	const node = value as Record<string, unknown>;
+	if (node.type === "pane") {
+		return typeof node.id === "string";
+	}
+	return (
+		node.type === "split" &&
+		(node.direction === "horizontal" || node.direction === "vertical") &&
+		typeof node.ratio === "number" &&
+		isPaneLayout(node.first) &&
+		isPaneLayout(node.second)
+	);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { formatTabTitle, usesTitleVariable } from "./tab-title";
+
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const SEQUENCE = "${sequence}";
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const PROCESS = "${process}";
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const CWD = "${cwd}";
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const CWD_FOLDER = "${cwdFolder}";
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const UNKNOWN = "${nope}";
+
+describe("tab-title", () => {
+	describe("formatTabTitle", () => {
+		it("substitutes variables", () => {
+			expect(
+				formatTabTitle(`${PROCESS} in ${CWD_FOLDER}`, {
+					process: "vim",
+					cwd: "/home/me/project/",
+				}),
+			).toBe("vim in project");
+			expect(formatTabTitle(CWD, { cwd: "C:\\src\\app" })).toBe("C:\\src\\app");
+			expect(formatTabTitle(CWD_FOLDER, { cwd: "C:\\src\\app" })).toBe("app");
+		});
+
+		it("trims separators left by empty variables", () => {
+			expect(
+				formatTabTitle(`${PROCESS} - ${CWD_FOLDER}`, { cwd: "/srv/api" }),
+			).toBe("api");
+			expect(formatTabTitle(`${SEQUENCE} | ${PROCESS}`, {})).toBe("");
+		});
+
+		it("keeps unknown variables", () => {
+			expect(
+				formatTabTitle(`${SEQUENCE} ${UNKNOWN}`, { sequence: "zsh" }),
+			).toBe(`zsh ${UNKNOWN}`);
+		});
+	});
+
+	it("detects which variables a template uses", () => {
+		expect(usesTitleVariable(`${PROCESS} - ${CWD_FOLDER}`, "process")).toBe(
+			true,
+		);
+		expect(usesTitleVariable(SEQUENCE, "process")).toBe(false);
+	});
+});
@@ -0,0 +1,53 @@
+/**
+ * Automatic tab titles from the `bootty.tabTitle` template
+ * Variables: ${sequence} (OSC 0/2 title set by the shell or program),
+ * ${process} (foreground process), ${cwd} and ${cwdFolder}.
+ * Extracted for testability (no VS Code dependencies)
+ */
+
+/** Values substituted into the tab title template */
+export interface TabTitleVariables {
+	sequence?: string;
+	process?: string;
+	cwd?: string;
+}
+
+/** Default template: the title set by the shell, else "Terminal N" */
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+export const DEFAULT_TAB_TITLE = "${sequence}";
+
+/** Last path segment of a directory ("/" stays "/") */
+function getFolderName(cwd: string): string {
+	const trimmed = cwd.replace(/[\\/]+$/, "");
+	if (!trimmed) return cwd;
+	return trimmed.slice(
+		Math.max(trimmed.lastIndexOf("/"), trimmed.lastIndexOf("\\")) + 1,
+	);
+}
+
+/** Check if a template uses a variable (so unused ones needn't be computed) */
+export function usesTitleVariable(template: string, name: string): boolean {
+	return template.includes(`\${${name}}`);
+}
+
+/**
+ * Fill in a tab title template
+ * Unknown variables are left as-is; separators left dangling by empty
+ * variables are trimmed. Returns "" when nothing is known yet.
+ */
+export function formatTabTitle(
+	template: string,
+	variables: TabTitleVariables,
+): string {
+	const values: Record<string, string | undefined> = {
+		sequence: variables.sequence,
+		process: variables.process,
+		cwd: variables.cwd,
+		cwdFolder: variables.cwd ? getFolderName(variables.cwd) : undefined,
+	};
+	return template
+		.replace(/\$\{(\w+)\}/g, (variable, name: string) =>
+			name in values ? (values[name] ?? "") : variable,
+		)
+		.replace(/^[\s\-–—:|·]+|[\s\-–—:|·]+$/g, "");
+}
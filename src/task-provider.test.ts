@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from "vitest";
+import type * as vscode from "vscode";
+import type { BooTTYPanelViewProvider } from "./panel-view-provider";
+import { BooTTYTaskProvider } from "./task-provider";
+import type { TerminalManager } from "./terminal-manager";
+import type { TerminalId } from "./types/terminal";
+
+vi.mock("vscode", () => {
+	class EventEmitter<T> {
+		private listeners = new Set<(value: T) => void>();
+		event = (listener: (value: T) => void) => {
+			this.listeners.add(listener);
+			return { dispose: () => this.listeners.delete(listener) };
+		};
+		fire(value: T) {
+			for (const listener of this.listeners) listener(value);
+		}
+		dispose() {
+			this.listeners.clear();
+		}
+	}
+	class Task {
+		presentationOptions = {};
+		constructor(
+			public definition: unknown,
+			public scope: unknown,
+			public name: string,
+			public source: string,
+			public execution: unknown,
+		) {}
+	}
+	class CustomExecution {
+		constructor(public callback: () => Promise<unknown>) {}
+	}
+	return {
+		EventEmitter,
+		Task,
+		CustomExecution,
+		TaskScope: { Workspace: 2 },
+		TaskPanelKind: { Shared: 1, Dedicated: 2, New: 3 },
+		workspace: { workspaceFolders: undefined },
+	};
+});
+
+const TERMINAL_ID = "task-terminal" as TerminalId;
+const noEvent = () => ({ dispose() {} });
+
+function createManager() {
+	return {
+		createTerminal: vi.fn(() => TERMINAL_ID),
+		restartTerminal: vi.fn(() => true),
+		renameTerminal: vi.fn(),
+		terminateProcess: vi.fn(),
+		destroyTerminalById: vi.fn(),
+		sendText: vi.fn(),
+		onDidWriteData: noEvent,
+		onDidExitProcess: noEvent,
+		onDidCloseTerminal: noEvent,
+	};
+}
+
+/** Resolve a `bootty` task and open its pseudoterminal */
+async function startTask(provider: BooTTYTaskProvider) {
+	const definition = { type: "bootty", command: "npm run build" };
+	const task = provider.resolveTask({
+		definition,
+		name: "build",
+		presentationOptions: {},
+	} as unknown as vscode.Task);
+	const execution = task?.execution as unknown as {
+		callback: (definition: unknown) => Promise<vscode.Pseudoterminal>;
+	};
+	const pty = await execution.callback(definition);
+	pty.open(undefined);
+	// Let the task start in its tab
+	await new Promise((resolve) => setTimeout(resolve, 0));
+	return pty;
+}
+
+describe("task-provider", () => {
+	it("keeps a terminated task's tab and reuses it for the next run", async () => {
+		const manager = createManager();
+		const panelProvider = {
+			show: vi.fn(async () => {}),
+			activateTerminal: vi.fn(),
+			focusTerminal: vi.fn(),
+		};
+		const provider = new BooTTYTaskProvider(
+			manager as unknown as TerminalManager,
+			panelProvider as unknown as BooTTYPanelViewProvider,
+		);
+
+		const first = await startTask(provider);
+		expect(manager.createTerminal).toHaveBeenCalledOnce();
+		first.close();
+		expect(manager.terminateProcess).toHaveBeenCalledWith(TERMINAL_ID);
+		expect(manager.destroyTerminalById).not.toHaveBeenCalled();
+
+		await startTask(provider);
+		expect(manager.restartTerminal).toHaveBeenCalledWith(
+			TERMINAL_ID,
+			expect.objectContaining({ closeOnExit: false }),
+		);
+		expect(manager.createTerminal).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,202 @@
+import * as vscode from "vscode";
+import type { BooTTYPanelViewProvider } from "./panel-view-provider";
+import {
+	findReusableTaskTerminal,
+	getTaskShellArgs,
+	type TaskPanelMode,
+	type TaskTerminalState,
+} from "./task-utils";
+import type { TerminalManager } from "./terminal-manager";
+import type { TerminalConfig, TerminalId } from "./types/terminal";
+
+/** `bootty` task definition from tasks.json (schema in package.json `taskDefinitions`) */
+interface BooTTYTaskDefinition extends vscode.TaskDefinition {
+	command: string;
+	args?: string[];
+	cwd?: string;
+	env?: Record<string, string>;
+}
+
+/** Map `presentation.panel` to how the task picks its terminal */
+function getPanelMode(task: vscode.Task): TaskPanelMode {
+	switch (task.presentationOptions.panel) {
+		case vscode.TaskPanelKind.Dedicated:
+			return "dedicated";
+		case vscode.TaskPanelKind.New:
+			return "new";
+		default:
+			return "shared";
+	}
+}
+
+/** Get the folder a task belongs to, if it is scoped to one */
+function getTaskFolder(task: vscode.Task): vscode.WorkspaceFolder | undefined {
+	return typeof task.scope === "object" ? task.scope : undefined;
+}
+
+/**
+ * Runs `bootty` tasks in BooTTY panel tabs.
+ * Each task gets a CustomExecution whose pseudoterminal mirrors the tab's
+ * output (so problem matchers work) and closes with the process exit code.
+ */
+export class BooTTYTaskProvider
+	implements vscode.TaskProvider, vscode.Disposable
+{
+	static readonly taskType = "bootty";
+
+	private taskTerminals = new Map<TerminalId, TaskTerminalState>();
+	private disposables: vscode.Disposable[] = [];
+
+	constructor(
+		private readonly manager: TerminalManager,
+		private readonly panelProvider: BooTTYPanelViewProvider,
+	) {
+		this.disposables.push(
+			manager.onDidCloseTerminal(({ terminalId }) => {
+				this.taskTerminals.delete(terminalId);
+			}),
+		);
+	}
+
+	/** Tasks come from tasks.json only (nothing is auto-detected) */
+	provideTasks(): vscode.Task[] {
+		return [];
+	}
+
+	resolveTask(task: vscode.Task): vscode.Task | undefined {
+		const definition = task.definition as BooTTYTaskDefinition;
+		if (typeof definition.command !== "string") return undefined;
+
+		const resolved = new vscode.Task(
+			definition,
+			task.scope ?? vscode.TaskScope.Workspace,
+			task.name,
+			BooTTYTaskProvider.taskType,
+			new vscode.CustomExecution(async (resolvedDefinition) =>
+				this.createTaskPseudoterminal(
+					task,
+					resolvedDefinition as BooTTYTaskDefinition,
+				),
+			),
+			task.problemMatchers,
+		);
+		resolved.presentationOptions = task.presentationOptions;
+		return resolved;
+	}
+
+	/** Bridge between the task system and the BooTTY tab running the task */
+	private createTaskPseudoterminal(
+		task: vscode.Task,
+		definition: BooTTYTaskDefinition,
+	): vscode.Pseudoterminal {
+		const writeEmitter = new vscode.EventEmitter<string>();
+		const closeEmitter = new vscode.EventEmitter<number | undefined>();
+		const subscriptions: vscode.Disposable[] = [];
+		let terminalId: TerminalId | undefined;
+		let finished = false;
+
+		const finish = (exitCode: number | undefined) => {
+			if (finished) return;
+			finished = true;
+			const state = terminalId && this.taskTerminals.get(terminalId);
+			if (state) state.running = false;
+			for (const subscription of subscriptions) {
+				subscription.dispose();
+			}
+			closeEmitter.fire(exitCode);
+		};
+
+		const start = async () => {
+			const id = await this.runInTerminal(task, definition);
+			if (!id) {
+				writeEmitter.fire("Failed to start the task in BooTTY.\r\n");
+				finish(1);
+				return;
+			}
+			terminalId = id;
+			subscriptions.push(
+				this.manager.onDidWriteData(({ terminalId, data }) => {
+					if (terminalId === id) writeEmitter.fire(data);
+				}),
+				this.manager.onDidExitProcess(({ terminalId, exitCode }) => {
+					if (terminalId === id) finish(exitCode);
+				}),
+				// Tab closed by the user while the task was running
+				this.manager.onDidCloseTerminal(({ terminalId, exitCode }) => {
+					if (terminalId === id) finish(exitCode);
+				}),
+			);
+		};
+
+		return {
+			onDidWrite: writeEmitter.event,
+			onDidClose: closeEmitter.event,
+			open: () => {
+				void start();
+			},
+			// Input typed into the task's own terminal goes to the BooTTY tab
+			handleInput: (data) => {
+				if (terminalId && !finished) this.manager.sendText(terminalId, data);
+			},
+			// Task terminated: stop the process but keep a finished tab for reuse
+			close: () => {
+				const id = finished ? undefined : terminalId;
+				finish(undefined);
+				if (id) this.manager.terminateProcess(id);
+			},
+		};
+	}
+
+	/** Start the task command in a reused or new panel tab titled after the task */
+	private async runInTerminal(
+		task: vscode.Task,
+		definition: BooTTYTaskDefinition,
+	): Promise<TerminalId | undefined> {
+		const config: Partial<TerminalConfig> = {
+			location: "panel",
+			args: getTaskShellArgs(
+				definition.command,
+				definition.args ?? [],
+				process.platform,
+			),
+			cwd:
+				definition.cwd ??
+				getTaskFolder(task)?.uri.fsPath ??
+				vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+			env: definition.env,
+			closeOnExit: false,
+		};
+		const taskKey = `${getTaskFolder(task)?.uri.toString() ?? ""}:${task.name}`;
+
+		// Show panel first so the webview can send terminal-ready
+		await this.panelProvider.show();
+
+		const reuseId = findReusableTaskTerminal(
+			[...this.taskTerminals.values()],
+			taskKey,
+			getPanelMode(task),
+		);
+		let id: TerminalId | undefined;
+		if (reuseId && this.manager.restartTerminal(reuseId, config)) {
+			id = reuseId;
+			this.panelProvider.activateTerminal(id);
+		} else {
+			id = this.manager.createTerminal(config) ?? undefined;
+		}
+		if (!id) return undefined;
+
+		this.manager.renameTerminal(id, task.name);
+		this.taskTerminals.set(id, { id, taskKey, running: true });
+		if (task.presentationOptions.focus) {
+			this.panelProvider.focusTerminal();
+		}
+		return id;
+	}
+
+	dispose(): void {
+		for (const disposable of this.disposables) {
+			disposable.dispose();
+		}
+		this.taskTerminals.clear();
+	}
+}
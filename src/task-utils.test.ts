@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+	findReusableTaskTerminal,
+	getTaskShellArgs,
+	type TaskTerminalState,
+} from "./task-utils";
+import type { TerminalId } from "./types/terminal";
+
+const id = (value: string) => value as TerminalId;
+
+describe("task-utils", () => {
+	describe("getTaskShellArgs", () => {
+		it("runs the command line with -c on POSIX", () => {
+			expect(getTaskShellArgs("npm run build", [], "linux")).toEqual([
+				"-c",
+				"npm run build",
+			]);
+		});
+
+		it("quotes args containing spaces or quotes on POSIX", () => {
+			expect(
+				getTaskShellArgs("echo", ["a b", "it's", "--flag=1"], "darwin"),
+			).toEqual(["-c", "echo 'a b' 'it'\\''s' --flag=1"]);
+		});
+
+		it("uses cmd.exe /c on Windows", () => {
+			expect(
+				getTaskShellArgs("dir", ["C:\\Program Files", 'say "hi"'], "win32"),
+			).toEqual(["/d", "/s", "/c", '"dir "C:\\Program Files" "say ""hi""""']);
+		});
+	});
+
+	describe("findReusableTaskTerminal", () => {
+		const terminals: TaskTerminalState[] = [
+			{ id: id("a"), taskKey: "build", running: false },
+			{ id: id("b"), taskKey: "test", running: false },
+			{ id: id("c"), taskKey: "watch", running: true },
+		];
+
+		it("prefers the same task's terminal in shared mode", () => {
+			expect(findReusableTaskTerminal(terminals, "test", "shared")).toBe("b");
+		});
+
+		it("reuses any finished terminal in shared mode", () => {
+			expect(findReusableTaskTerminal(terminals, "lint", "shared")).toBe("a");
+		});
+
+		it("only reuses the same task's terminal in dedicated mode", () => {
+			expect(findReusableTaskTerminal(terminals, "test", "dedicated")).toBe(
+				"b",
+			);
+			expect(
+				findReusableTaskTerminal(terminals, "lint", "dedicated"),
+			).toBeUndefined();
+		});
+
+		it("never reuses running terminals or in new mode", () => {
+			expect(
+				findReusableTaskTerminal(terminals, "watch", "dedicated"),
+			).toBeUndefined();
+			expect(
+				findReusableTaskTerminal(terminals, "build", "new"),
+			).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,67 @@
+/**
+ * Helpers for running `bootty` tasks (see task-provider.ts)
+ * Extracted for testability (no VS Code or Node dependencies)
+ */
+
+import type { TerminalId } from "./types/terminal";
+
+/** How a task picks its terminal (mirrors `presentation.panel` in tasks.json) */
+export type TaskPanelMode = "shared" | "dedicated" | "new";
+
+/** A panel terminal that has run a task */
+export interface TaskTerminalState {
+	id: TerminalId;
+	taskKey: string; // Identifies the task (dedicated terminals are reused per task)
+	running: boolean;
+}
+
+// Arguments made only of these characters need no quoting
+const SAFE_ARG = /^[\w@%+=:,./-]+$/;
+
+/** Quote an argument for `sh -c` (single quotes, with embedded ' escaped) */
+function quotePosix(arg: string): string {
+	if (SAFE_ARG.test(arg)) return arg;
+	return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/** Quote an argument for `cmd.exe /c` (double quotes, with embedded " doubled) */
+function quoteWindows(arg: string): string {
+	if (SAFE_ARG.test(arg)) return arg;
+	return `"${arg.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Build shell arguments that run a task command line
+ * `command` is passed through as-is (it may use pipes, globs, etc.);
+ * `args` are quoted so each reaches the command as a single argument.
+ */
+export function getTaskShellArgs(
+	command: string,
+	args: string[],
+	platform: string,
+): string[] {
+	if (platform === "win32") {
+		const line = [command, ...args.map(quoteWindows)].join(" ");
+		return ["/d", "/s", "/c", `"${line}"`];
+	}
+	const line = [command, ...args.map(quotePosix)].join(" ");
+	return ["-c", line];
+}
+
+/**
+ * Find a finished task terminal to run a task in again
+ * - shared: the finished terminal of the same task, else any finished one
+ * - dedicated: the finished terminal of the same task
+ * - new: never reuse
+ */
+export function findReusableTaskTerminal(
+	terminals: TaskTerminalState[],
+	taskKey: string,
+	mode: TaskPanelMode,
+): TerminalId | undefined {
+	if (mode === "new") return undefined;
+	const finished = terminals.filter((terminal) => !terminal.running);
+	const sameTask = finished.find((terminal) => terminal.taskKey === taskKey);
+	if (sameTask || mode === "dedicated") return sameTask?.id;
+	return finished[0]?.id;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from "vitest";
+import type * as vscode from "vscode";
+import { createPseudoterminalBackend } from "./terminal-backend";
+
+/** Minimal event emitter matching vscode.Event */
+function createEmitter<T>() {
+	const listeners = new Set<(value: T) => void>();
+	const event = (listener: (value: T) => void) => {
+		listeners.add(listener);
+		return { dispose: () => listeners.delete(listener) };
+	};
+	return {
+		event: event as unknown as vscode.Event<T>,
+		fire: (value: T) => {
+			for (const listener of [...listeners]) listener(value);
+		},
+		get size() {
+			return listeners.size;
+		},
+	};
+}
+
+function createFakePty() {
+	const write = createEmitter<string>();
+	const close = createEmitter<number | undefined>();
+	const pty = {
+		onDidWrite: write.event,
+		onDidClose: close.event,
+		open: vi.fn(),
+		close: vi.fn(),
+		handleInput: vi.fn(),
+		setDimensions: vi.fn(),
+	};
+	return { pty, write, close };
+}
+
+function createHandlers() {
+	return { onData: vi.fn(), onExit: vi.fn(), onError: vi.fn() };
+}
+
+describe("terminal-backend", () => {
+	describe("createPseudoterminalBackend", () => {
+		it("opens on first resize, then forwards dimensions", () => {
+			const { pty } = createFakePty();
+			const backend = createPseudoterminalBackend(pty, createHandlers());
+
+			expect(pty.open).not.toHaveBeenCalled();
+			backend.resize(120, 40);
+			expect(pty.open).toHaveBeenCalledWith({ columns: 120, rows: 40 });
+			backend.resize(100, 30);
+			expect(pty.setDimensions).toHaveBeenCalledWith({
+				columns: 100,
+				rows: 30,
+			});
+			expect(pty.open).toHaveBeenCalledTimes(1);
+		});
+
+		it("forwards output and input once open", () => {
+			const { pty, write } = createFakePty();
+			const handlers = createHandlers();
+			const backend = createPseudoterminalBackend(pty, handlers);
+
+			backend.write("ignored before open");
+			expect(pty.handleInput).not.toHaveBeenCalled();
+
+			backend.resize(80, 24);
+			backend.write("ls\r");
+			write.fire("hello\r\n");
+			expect(pty.handleInput).toHaveBeenCalledWith("ls\r");
+			expect(handlers.onData).toHaveBeenCalledWith("hello\r\n");
+		});
+
+		it("reports exit codes and unsubscribes on close", () => {
+			const { pty, write, close } = createFakePty();
+			const handlers = createHandlers();
+			const backend = createPseudoterminalBackend(pty, handlers);
+
+			close.fire(3);
+			expect(handlers.onExit).toHaveBeenCalledWith(3);
+			expect(write.size).toBe(0);
+
+			// Closed by the pseudoterminal itself: kill must not call close()
+			backend.kill();
+			expect(pty.close).not.toHaveBeenCalled();
+		});
+
+		it("treats a void close as exit code 0", () => {
+			const { pty, close } = createFakePty();
+			const handlers = createHandlers();
+			createPseudoterminalBackend(pty, handlers);
+			close.fire(undefined);
+			expect(handlers.onExit).toHaveBeenCalledWith(0);
+		});
+
+		it("closes once when killed", () => {
+			const { pty } = createFakePty();
+			const backend = createPseudoterminalBackend(pty, createHandlers());
+			backend.kill();
+			backend.kill();
+			expect(pty.close).toHaveBeenCalledTimes(1);
+		});
+
+		it("reports exceptions from the pseudoterminal as errors", () => {
+			const { pty } = createFakePty();
+			pty.open.mockImplementation(() => {
+				throw new Error("boom");
+			});
+			const handlers = createHandlers();
+			createPseudoterminalBackend(pty, handlers).resize(80, 24);
+			expect(handlers.onError).toHaveBeenCalledWith(new Error("boom"));
+		});
+	});
+});
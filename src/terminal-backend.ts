@@ -0,0 +1,99 @@
+/**
+ * Terminal backends: the process behind a terminal webview
+ * A backend is either a node-pty shell (see PtyService) or an in-process
+ * object implementing VS Code's Pseudoterminal contract (tasks, REPLs, tests).
+ */
+
+import type * as vscode from "vscode";
+
+/** Backend event handlers */
+export interface BackendHandlers {
+	onData: (data: string) => void;
+	onExit: (code: number) => void;
+	onError: (error: Error) => void; // Runtime errors (e.g., process crash)
+}
+
+/** Write/resize/close contract shared by all backends */
+export interface TerminalBackend {
+	/** Send user input to the process */
+	write(data: string): void;
+	/** Apply webview-measured dimensions */
+	resize(cols: number, rows: number): void;
+	/** Terminate the process (safe to call more than once) */
+	kill(): void;
+	/** Name of the foreground process, where the backend can tell */
+	getProcessName?(): string | undefined;
+	/** Stop reading output until resumed (flow control, where supported) */
+	pause?(): void;
+	resume?(): void;
+}
+
+/**
+ * Wrap a `vscode.Pseudoterminal` as a backend.
+ * `open` is deferred until the first resize (sent when the webview is ready),
+ * matching VS Code, which opens a pseudoterminal once its dimensions are known.
+ */
+export function createPseudoterminalBackend(
+	pty: vscode.Pseudoterminal,
+	handlers: BackendHandlers,
+): TerminalBackend {
+	let opened = false;
+	let closed = false;
+
+	const subscriptions: vscode.Disposable[] = [
+		pty.onDidWrite((data) => {
+			if (!closed) handlers.onData(data);
+		}),
+	];
+	if (pty.onDidClose) {
+		subscriptions.push(
+			pty.onDidClose((code) => {
+				if (closed) return;
+				closed = true;
+				dispose();
+				handlers.onExit(typeof code === "number" ? code : 0);
+			}),
+		);
+	}
+
+	function dispose(): void {
+		for (const subscription of subscriptions) {
+			subscription.dispose();
+		}
+		subscriptions.length = 0;
+	}
+
+	// Report exceptions thrown by extension code instead of crashing the manager
+	function guard(fn: () => void): void {
+		try {
+			fn();
+		} catch (err) {
+			handlers.onError(err instanceof Error ? err : new Error(String(err)));
+		}
+	}
+
+	return {
+		write(data: string): void {
+			if (!opened || closed) return;
+			guard(() => pty.handleInput?.(data));
+		},
+
+		resize(cols: number, rows: number): void {
+			if (closed) return;
+			const dimensions = { columns: cols, rows };
+			if (!opened) {
+				opened = true;
+				guard(() => pty.open(dimensions));
+			} else {
+				guard(() => pty.setDimensions?.(dimensions));
+			}
+		},
+
+		kill(): void {
+			if (closed) return;
+			closed = true;
+			dispose();
+			guard(() => pty.close());
+		},
+	};
+}
@@ -1,18 +1,63 @@
+import * as fs from "node:fs";
 import * as vscode from "vscode";
+import type { TerminalDiagnostics, WasmLoadDiagnostics } from "./diagnostics";
+import { createFileCache, getWorkspaceSearchGlob } from "./file-cache";
+import { formatError, log, showLog } from "./logger";
+import {
+	createNotificationParser,
+	formatProgress,
+	NOTIFICATION_OSC_CODES,
+	type TerminalNotification,
+	type TerminalProgress,
+} from "./notifications";
+import { createOscParser } from "./osc-parser";
+import {
+	createFlowController,
+	createOutputBatcher,
+	createOutputQueue,
+} from "./output-flow";
 import type { BooTTYPanelViewProvider } from "./panel-view-provider";
+import type { PtyHostClient } from "./pty-host-client";
 import { PtyService } from "./pty-service";
+import type { ScrollbackExportFormat } from "./scrollback-export";
 import {
+	BLOCKED_URL_SCHEMES,
 	createVSCodeConfigGetter,
 	resolveDisplaySettings,
+	resolveLinkSettings,
 } from "./settings-resolver";
+import { createCommandTracker } from "./shell-integration";
+import { planSplitRestore } from "./split-layout";
+import {
+	DEFAULT_TAB_TITLE,
+	formatTabTitle,
+	usesTitleVariable,
+} from "./tab-title";
+import {
+	createPseudoterminalBackend,
+	type TerminalBackend,
+} from "./terminal-backend";
 import type { TerminalTreeDataProvider } from "./terminal-tree-provider";
 import {
 	createTerminalId,
 	EXIT_CLOSE_DELAY_MS,
-	MAX_DATA_QUEUE_SIZE,
+	MAX_READY_RETRIES,
+	MAX_WASM_LOAD_RECORDS,
+	MAX_WORKSPACE_LINK_MATCHES,
+	PROCESS_TITLE_INTERVAL_MS,
+	parseOSC7Path,
 	READY_TIMEOUT_MS,
 	resolveConfig,
+	SCROLLBACK_EXPORT_TIMEOUT_MS,
+	shouldCloseOnExit,
+	TERMINATED_EXIT_CODE,
+	WORKSPACE_SEARCH_CACHE_MS,
 } from "./terminal-utils";
+import type {
+	TerminalCloseEvent,
+	TerminalDataEvent,
+	TerminalInfo,
+} from "./types/api";
 import type {
 	ExtensionMessage,
 	PanelWebviewMessage,
@@ -22,13 +67,16 @@ import type {
 } from "./types/messages";
 import type {
 	EditorTerminalInstance,
+	ExitBehavior,
+	PaneLayout,
 	PanelTerminalInstance,
+	SplitDirection,
 	TerminalConfig,
 	TerminalId,
 	TerminalInstance,
 	TerminalLocation,
 } from "./types/terminal";
-import { createWebviewPanel } from "./webview-provider";
+import { createWebviewPanel, reloadWebviewPanel } from "./webview-provider";
 
 /** Get display settings using the shared resolver (tested in settings-resolver.test.ts) */
 function getDisplaySettings() {
@@ -38,6 +86,82 @@ function getDisplaySettings() {
 	return resolveDisplaySettings(configGetter);
 }
 
+/** Get link settings (bootty.links.*) from VS Code configuration */
+function getLinkSettings() {
+	const configGetter = createVSCodeConfigGetter((section) =>
+		vscode.workspace.getConfiguration(section),
+	);
+	return resolveLinkSettings(configGetter);
+}
+
+/** Get the automatic tab title template (bootty.tabTitle) */
+function getTabTitleTemplate(): string {
+	return vscode.workspace
+		.getConfiguration("bootty")
+		.get<string>("tabTitle", DEFAULT_TAB_TITLE);
+}
+
+/** What happens to terminals when their shell exits (bootty.onExit) */
+function getExitBehavior(): ExitBehavior {
+	return vscode.workspace
+		.getConfiguration("bootty")
+		.get<ExitBehavior>("onExit", "close");
+}
+
+/** A withProgress notification driven by OSC 9;4 reports */
+interface ProgressNotification {
+	update(progress: TerminalProgress): void;
+	close(): void;
+}
+
+/** Show a progress notification titled after the terminal reporting it */
+function showProgressNotification(title: string): ProgressNotification {
+	let latest: TerminalProgress | undefined;
+	let closed = false;
+	let report: ((progress: TerminalProgress) => void) | undefined;
+	let resolve: (() => void) | undefined;
+
+	vscode.window.withProgress(
+		{ location: vscode.ProgressLocation.Notification, title },
+		(progress) => {
+			// VS Code progress only moves forward, in increments
+			let reported = 0;
+			report = ({ state, value }) => {
+				let increment: number | undefined;
+				if (value !== undefined && value > reported) {
+					increment = value - reported;
+					reported = value;
+				}
+				const message =
+					state === "error"
+						? "Error"
+						: state === "paused"
+							? "Paused"
+							: value !== undefined && state === "normal"
+								? `${value}%`
+								: undefined;
+				progress.report({ increment, message });
+			};
+			if (latest) report(latest);
+			return new Promise<void>((done) => {
+				resolve = done;
+				if (closed) done();
+			});
+		},
+	);
+
+	return {
+		update(progress) {
+			latest = progress;
+			report?.(progress);
+		},
+		close() {
+			closed = true;
+			resolve?.();
+		},
+	};
+}
+
 /** Get terminal theme colors from workbench.colorCustomizations with theme-scoped override support */
 function resolveTerminalTheme(): TerminalTheme {
 	const workbenchConfig = vscode.workspace.getConfiguration("workbench");
@@ -100,28 +224,93 @@ function resolveTerminalTheme(): TerminalTheme {
 	};
 }
 
+/** Where a new panel terminal is placed when it splits an existing pane */
+interface PanelSplit {
+	targetId: TerminalId;
+	direction: SplitDirection;
+	ratio: number;
+}
+
+/** Saved session data for a panel terminal recreated after reload */
+interface PanelRestore {
+	restoreId: TerminalId; // ID from the previous session (keys saved scrollback)
+	cwd?: string; // Last cwd reported via OSC 7
+	customTitle?: boolean; // Title was set by the user
+}
+
 /** Get the first workspace folder path, or undefined if none open */
 function getWorkspaceCwd(): string | undefined {
 	return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 }
 
+/** Check a saved cwd still exists (directories may be deleted between sessions) */
+function isExistingDirectory(dir: string | undefined): dir is string {
+	if (!dir) return false;
+	try {
+		return fs.statSync(dir).isDirectory();
+	} catch {
+		return false;
+	}
+}
+
 export class TerminalManager implements vscode.Disposable {
 	private terminals = new Map<TerminalId, TerminalInstance>();
 	private ptyService: PtyService;
+	// Settles once the PTY host connected (or failed to), so restores can reattach
+	private ptyHostConnected: Promise<void>;
+	private backends = new Map<TerminalId, TerminalBackend>(); // Shell or pseudoterminal per terminal
+	private pseudoterminals = new Set<TerminalId>(); // Backends provided by other extensions
 	private context: vscode.ExtensionContext;
 	private panelProvider: BooTTYPanelViewProvider;
 	private treeProvider: TerminalTreeDataProvider;
 	private usedIndices = new Set<number>(); // Track used indices for reuse
+	// Pending scrollback export requests, resolved by scrollback-exported
+	private exportRequests = new Map<number, (content: string) => void>();
+	private nextExportRequestId = 1;
+	// Open OSC 9;4 progress notifications
+	private progressNotifications = new Map<TerminalId, ProgressNotification>();
+	private tabTitleTemplate = getTabTitleTemplate();
+	// Workspace search results for hovered file links, by glob
+	private workspaceSearchCache = createFileCache(
+		WORKSPACE_SEARCH_CACHE_MS,
+		500,
+	);
+	// Recent ghostty-web WASM loads (for diagnostics)
+	private wasmLoads: WasmLoadDiagnostics[] = [];
+
+	// Events for the public extension API
+	private readonly _onDidWriteData =
+		new vscode.EventEmitter<TerminalDataEvent>();
+	readonly onDidWriteData = this._onDidWriteData.event;
+	private readonly _onDidCloseTerminal =
+		new vscode.EventEmitter<TerminalCloseEvent>();
+	readonly onDidCloseTerminal = this._onDidCloseTerminal.event;
+	// Fires when a terminal's process exits (before the terminal is closed, if it is)
+	private readonly _onDidExitProcess = new vscode.EventEmitter<
+		Required<TerminalCloseEvent>
+	>();
+	readonly onDidExitProcess = this._onDidExitProcess.event;
 
 	constructor(
 		context: vscode.ExtensionContext,
 		panelProvider: BooTTYPanelViewProvider,
 		treeProvider: TerminalTreeDataProvider,
+		ptyHost: Promise<PtyHostClient | undefined> = Promise.resolve(undefined),
 	) {
 		this.context = context;
 		this.panelProvider = panelProvider;
 		this.treeProvider = treeProvider;
-		this.ptyService = new PtyService();
+		this.ptyService = new PtyService(
+			vscode.Uri.joinPath(
+				context.extensionUri,
+				"resources",
+				"shell-integration",
+			).fsPath,
+		);
+		// Terminals started before the host connects run locally
+		this.ptyHostConnected = ptyHost.then((host) => {
+			if (host) this.ptyService.setHost(host);
+		});
 
 		// Listen for configuration changes (font settings hot reload)
 		context.subscriptions.push(
@@ -133,6 +322,12 @@ export class TerminalManager implements vscode.Disposable {
 				) {
 					this.broadcastSettingsUpdate();
 				}
+				if (e.affectsConfiguration("bootty.tabTitle")) {
+					this.tabTitleTemplate = getTabTitleTemplate();
+					for (const instance of this.terminals.values()) {
+						this.refreshTitle(instance, true);
+					}
+				}
 				// Theme colors from workbench.colorCustomizations
 				if (e.affectsConfiguration("workbench.colorCustomizations")) {
 					this.broadcastThemeUpdate();
@@ -165,34 +360,151 @@ export class TerminalManager implements vscode.Disposable {
 		}
 	}
 
-	/** Type-safe message posting using discriminated union */
-	private postToTerminal(id: TerminalId, message: ExtensionMessage): void {
+	/** Post a message to a ready terminal's webview (false if not sent right away) */
+	private postToTerminal(id: TerminalId, message: ExtensionMessage): boolean {
 		const instance = this.terminals.get(id);
-		if (!instance || !instance.ready) return;
+		if (!instance || !instance.ready) return false;
 
 		if (instance.location === "editor") {
 			// TypeScript knows instance.panel exists here
 			instance.panel.webview.postMessage(message);
-		} else {
-			// instance.location === 'panel' - use panel provider
-			this.panelProvider.postMessage(message);
+			return true;
 		}
+		// instance.location === 'panel' - use panel provider
+		return this.panelProvider.postMessage(message);
 	}
 
-	/** Show search in the active editor terminal (if any) */
-	showSearchInActiveEditor(): boolean {
+	/** Output batching and flow control for a new terminal */
+	private createOutputFlow(
+		id: TerminalId,
+	): Pick<TerminalInstance, "output" | "flow"> {
+		return {
+			output: createOutputBatcher((data) => this.sendOutput(id, data)),
+			flow: createFlowController(
+				() => this.backends.get(id)?.pause?.(),
+				() => this.backends.get(id)?.resume?.(),
+			),
+		};
+	}
+
+	/** Post a batch of output, counting it until the webview acknowledges it */
+	private sendOutput(id: TerminalId, data: string): void {
+		const sent = this.postToTerminal(id, {
+			type: "pty-data",
+			terminalId: id,
+			data,
+		});
+		// Output queued for a hidden panel isn't counted, so it can't stall the shell
+		if (sent) this.terminals.get(id)?.flow.sent(data.length);
+	}
+
+	/** Post a message to the active editor terminal (if any) */
+	postToActiveEditor(message: ExtensionMessage): boolean {
 		for (const instance of this.terminals.values()) {
 			if (instance.location === "editor" && instance.panel.active) {
-				instance.panel.webview.postMessage({ type: "show-search" });
+				instance.panel.webview.postMessage(message);
 				return true;
 			}
 		}
 		return false;
 	}
 
-	/** Broadcast updated settings to all ready terminals */
+	/** Show search in the active editor terminal (if any) */
+	showSearchInActiveEditor(): boolean {
+		return this.postToActiveEditor({ type: "show-search" });
+	}
+
+	/** Get the active terminal: focused editor terminal first, then active panel tab */
+	getActiveTerminalId(): TerminalId | undefined {
+		for (const instance of this.terminals.values()) {
+			if (instance.location === "editor" && instance.panel.active) {
+				return instance.id;
+			}
+		}
+		return this.treeProvider.getActiveTerminalId();
+	}
+
+	/** Copy the output of the last finished command (requires shell integration) */
+	async copyLastCommandOutput(id: TerminalId): Promise<void> {
+		const instance = this.terminals.get(id);
+		if (!instance) return;
+
+		const command = instance.commandTracker.getLastFinishedCommand();
+		if (!command) {
+			vscode.window.showInformationMessage(
+				instance.commandTracker.active
+					? "No finished command to copy output from."
+					: "Shell integration is not active in this terminal.",
+			);
+			return;
+		}
+		await vscode.env.clipboard.writeText(command.output);
+		vscode.window.setStatusBarMessage(
+			`$(clippy) Copied output of "${command.command}"`,
+			2000,
+		);
+	}
+
+	/** Export a terminal's scrollback into an untitled document */
+	async exportScrollback(id: TerminalId): Promise<void> {
+		const instance = this.terminals.get(id);
+		if (!instance?.ready) return;
+
+		const choice = await vscode.window.showQuickPick(
+			[
+				{ label: "Plain Text", format: "text" as const },
+				{ label: "Plain Text with ANSI Escapes", format: "ansi" as const },
+				{ label: "HTML", format: "html" as const },
+			],
+			{ placeHolder: "Export scrollback as" },
+		);
+		if (!choice) return;
+
+		const content = await this.requestScrollback(id, choice.format);
+		if (content === undefined) {
+			vscode.window.showWarningMessage("Failed to read terminal scrollback.");
+			return;
+		}
+		const document = await vscode.workspace.openTextDocument({
+			content,
+			language: choice.format === "html" ? "html" : "plaintext",
+		});
+		await vscode.window.showTextDocument(document);
+	}
+
+	/** Ask the webview for the whole buffer (undefined if it doesn't answer) */
+	private requestScrollback(
+		id: TerminalId,
+		format: ScrollbackExportFormat,
+	): Promise<string | undefined> {
+		const instance = this.terminals.get(id);
+		if (!instance) return Promise.resolve(undefined);
+
+		const requestId = this.nextExportRequestId++;
+		return new Promise((resolve) => {
+			const timeout = setTimeout(() => {
+				this.exportRequests.delete(requestId);
+				resolve(undefined);
+			}, SCROLLBACK_EXPORT_TIMEOUT_MS);
+			this.exportRequests.set(requestId, (content) => {
+				clearTimeout(timeout);
+				this.exportRequests.delete(requestId);
+				resolve(content);
+			});
+			this.postToTerminal(id, {
+				type: "export-scrollback",
+				terminalId: id,
+				requestId,
+				format,
+				title: instance.title,
+			});
+		});
+	}
+
+	/** Broadcast updated settings and runtime config to all ready terminals */
 	private broadcastSettingsUpdate(): void {
 		const settings = getDisplaySettings();
+		const config = this.getRuntimeConfig();
 		for (const [id, instance] of this.terminals) {
 			if (instance.ready) {
 				this.postToTerminal(id, {
@@ -200,6 +512,7 @@ export class TerminalManager implements vscode.Disposable {
 					terminalId: id,
 					settings,
 				});
+				this.postToTerminal(id, { type: "update-config", config });
 			}
 		}
 	}
@@ -223,35 +536,62 @@ export class TerminalManager implements vscode.Disposable {
 		const bellStyle = vscode.workspace
 			.getConfiguration("bootty")
 			.get<"visual" | "none">("bell", "visual");
-		return { bellStyle };
+		return { bellStyle, linkModifier: getLinkSettings().modifier };
 	}
 
-	createTerminal(config?: Partial<TerminalConfig>): TerminalId | null {
+	/**
+	 * Create a terminal backed by a shell, or by `pty` (an in-process
+	 * Pseudoterminal) when given; shell/args/env/cwd are then unused.
+	 */
+	createTerminal(
+		config?: Partial<TerminalConfig>,
+		pty?: vscode.Pseudoterminal,
+	): TerminalId | null {
 		const location: TerminalLocation = config?.location ?? "panel";
 		return location === "editor"
-			? this.createEditorTerminal(config)
-			: this.createPanelTerminal(config);
+			? this.createEditorTerminal(config, pty)
+			: this.createPanelTerminal(config, undefined, pty);
 	}
 
 	/** Create terminal in editor tab */
 	private createEditorTerminal(
 		config?: Partial<TerminalConfig>,
+		pty?: vscode.Pseudoterminal,
 	): TerminalId | null {
 		const id = createTerminalId();
 		const index = this.getNextIndex();
-		const panel = createWebviewPanel(this.context.extensionUri, id);
+		const panel = this.openEditorWebview(id);
 		const instance: EditorTerminalInstance = {
 			id,
 			location: "editor",
 			config: config ?? {},
 			panel,
 			ready: false,
-			dataQueue: [],
+			dataQueue: createOutputQueue(),
+			...this.createOutputFlow(id),
+			...this.createOutputParsers(id),
 			title: `Terminal ${index}`,
 			index,
 		};
 		this.terminals.set(id, instance);
 
+		// Start shell or pseudoterminal
+		const spawnResult = this.startBackend(id, config, pty);
+		if (!spawnResult.ok) {
+			panel.dispose();
+			this.terminals.delete(id);
+			this.releaseIndex(index);
+			return null;
+		}
+
+		this.startReadyTimeout(instance);
+		return id;
+	}
+
+	/** Open the editor tab webview for a terminal */
+	private openEditorWebview(id: TerminalId): vscode.WebviewPanel {
+		const panel = createWebviewPanel(this.context.extensionUri, id);
+
 		// Setup message handler for webview -> extension
 		panel.webview.onDidReceiveMessage(
 			(message: WebviewMessage) => this.handleWebviewMessage(message),
@@ -259,33 +599,144 @@ export class TerminalManager implements vscode.Disposable {
 			this.context.subscriptions,
 		);
 
-		// Spawn PTY
-		const spawnResult = this.spawnPty(id, config);
-		if (!spawnResult.ok) {
-			panel.dispose();
-			this.terminals.delete(id);
-			this.releaseIndex(index);
-			return null;
-		}
+		// Cleanup on panel close (not for a tab left behind by a move to the panel)
+		panel.onDidDispose(() => {
+			const instance = this.terminals.get(id);
+			if (instance?.location === "editor" && instance.panel === panel) {
+				this.destroyTerminal(id);
+			}
+		});
+		return panel;
+	}
 
-		// Set ready timeout
+	/**
+	 * Watch for a terminal's webview to report ready. A missed signal reloads
+	 * the webview (retrying the WASM load) up to MAX_READY_RETRIES times before
+	 * asking the user; the process keeps running throughout.
+	 */
+	private startReadyTimeout(instance: TerminalInstance, retries = 0): void {
 		instance.readyTimeout = setTimeout(() => {
-			if (!instance.ready) {
-				vscode.window.showErrorMessage(
-					"Terminal failed to initialize (timeout)",
+			instance.readyTimeout = undefined;
+			if (instance.ready || this.terminals.get(instance.id) !== instance) {
+				return;
+			}
+			// A hidden panel hasn't loaded yet; that's not a failure
+			if (instance.location === "panel" && !this.panelProvider.isVisible) {
+				this.startReadyTimeout(instance, retries);
+				return;
+			}
+			if (retries < MAX_READY_RETRIES) {
+				log.warn(
+					`Terminal "${instance.title}" (${instance.id}) didn't report ready; reloading its webview`,
 				);
-				this.destroyTerminal(id);
+				this.reloadTerminalWebview(instance);
+				this.startReadyTimeout(instance, retries + 1);
+				return;
 			}
+			log.error(
+				`Terminal "${instance.title}" (${instance.id}) failed to initialize after ${MAX_READY_RETRIES} reloads`,
+			);
+			this.showReadyTimeoutError(instance);
 		}, READY_TIMEOUT_MS);
+	}
 
-		// Cleanup on panel close
-		panel.onDidDispose(() => this.destroyTerminal(id));
-		return id;
+	/** Reload the webview of a terminal that didn't report ready */
+	private reloadTerminalWebview(instance: TerminalInstance): void {
+		instance.loadAttempts = (instance.loadAttempts ?? 0) + 1;
+		if (instance.location === "editor") {
+			reloadWebviewPanel(
+				instance.panel,
+				this.context.extensionUri,
+				instance.id,
+				instance.loadAttempts,
+			);
+		} else if (!this.panelProvider.isReady) {
+			// The panel itself never started (its queued messages are kept)
+			this.panelProvider.reload();
+		} else {
+			// The panel works but this terminal's view didn't start: add it again
+			this.panelProvider.removeTerminal(instance.id);
+			this.treeProvider.removeTerminal(instance.id);
+			this.attachPanelTerminal(instance.id, instance.title, true);
+		}
 	}
 
-	/** Create terminal in panel tab */
+	/** Report a terminal whose webview didn't start after retries */
+	private async showReadyTimeoutError(
+		instance: TerminalInstance,
+	): Promise<void> {
+		const selection = await vscode.window.showErrorMessage(
+			`Terminal "${instance.title}" failed to initialize. Its process is still running.`,
+			"Retry",
+			"Open Logs",
+		);
+		if (instance.ready || this.terminals.get(instance.id) !== instance) return;
+		if (selection === "Retry") {
+			this.reloadTerminalWebview(instance);
+			this.startReadyTimeout(instance);
+		} else if (selection === "Open Logs") {
+			showLog();
+		}
+	}
+
+	/**
+	 * Move a terminal between the panel and an editor tab
+	 * The process keeps running; the new webview gets the old one's buffer
+	 * (with colors), title and cwd. Output arriving meanwhile is held until
+	 * the new webview is ready.
+	 */
+	async moveTerminal(
+		id: TerminalId,
+		location: TerminalLocation,
+	): Promise<void> {
+		const instance = this.terminals.get(id);
+		if (!instance?.ready || instance.location === location) return;
+
+		// Request the buffer while still routed to the old webview, then hold output
+		instance.output.flush();
+		const scrollback = this.requestScrollback(id, "ansi");
+		instance.ready = false;
+		const content = await scrollback;
+		if (this.terminals.get(id) !== instance) return; // Closed meanwhile
+
+		// Replayed before the held output; the cursor ends on the last line (the prompt)
+		const dataQueue = createOutputQueue();
+		if (content) {
+			dataQueue.push(content.replace(/\n/g, "\r\n"));
+		}
+		dataQueue.push(instance.dataQueue.drain());
+
+		let moved: TerminalInstance;
+		if (instance.location === "panel") {
+			const panel = this.openEditorWebview(id);
+			panel.title = instance.title;
+			moved = { ...instance, location: "editor", panel, dataQueue };
+		} else {
+			const { panel: _panel, ...rest } = instance;
+			moved = { ...rest, location: "panel", dataQueue };
+		}
+		moved.config = { ...moved.config, location };
+		this.terminals.set(id, moved);
+		this.startReadyTimeout(moved);
+
+		// Tear down the old view (openEditorWebview ignores the old tab's disposal)
+		if (instance.location === "panel") {
+			this.panelProvider.removeTerminal(id);
+			this.treeProvider.removeTerminal(id);
+		} else {
+			instance.panel.dispose();
+			this.attachPanelTerminal(id, moved.title, true);
+			await this.panelProvider.show();
+		}
+		// Show any progress on the new tab
+		if (moved.progress) this.updateProgress(id, moved.progress);
+	}
+
+	/** Create terminal in panel tab (or as a split pane next to an existing one) */
 	private createPanelTerminal(
 		config?: Partial<TerminalConfig>,
+		split?: PanelSplit,
+		pty?: vscode.Pseudoterminal,
 	): TerminalId | null {
 		const id = createTerminalId();
 		const index = this.getNextIndex();
@@ -295,46 +746,80 @@ export class TerminalManager implements vscode.Disposable {
 			location: "panel",
 			config: config ?? {},
 			ready: false,
-			dataQueue: [],
+			dataQueue: createOutputQueue(),
+			...this.createOutputFlow(id),
+			...this.createOutputParsers(id),
 			title,
 			index,
 		};
 		this.terminals.set(id, instance);
 
-		// Spawn PTY
-		const spawnResult = this.spawnPty(id, config);
+		// Start shell or pseudoterminal
+		const spawnResult = this.startBackend(id, config, pty);
 		if (!spawnResult.ok) {
 			this.terminals.delete(id);
 			this.releaseIndex(index);
 			return null;
 		}
 
-		// Set ready timeout
-		instance.readyTimeout = setTimeout(() => {
-			if (!instance.ready) {
-				vscode.window.showErrorMessage(
-					"Terminal failed to initialize (timeout)",
-				);
-				this.destroyTerminal(id);
-			}
-		}, READY_TIMEOUT_MS);
-
-		// Add tab to panel (panel handles message routing)
-		this.panelProvider.addTerminal(id, title, true);
-
-		// Add to tree provider
-		this.treeProvider.addTerminal({ id, title, active: true });
+		this.startReadyTimeout(instance);
 
+		this.attachPanelTerminal(id, title, true, split);
 		return id;
 	}
 
+	/**
+	 * Recreate a saved panel tab (and its split panes)
+	 * Waits for the PTY host, so shells still running in it are reattached.
+	 */
+	private async restorePanelTab(
+		message: Extract<
+			PanelWebviewMessage,
+			{ type: "new-tab-requested-with-title" }
+		>,
+	): Promise<void> {
+		await this.ptyHostConnected;
+		const cwds = message.cwds ?? {};
+		const customTitles = new Set(message.customTitles);
+		const id = this.createPanelTerminalWithTitle(
+			message.title,
+			message.makeActive,
+			undefined,
+			message.restoreId
+				? {
+						restoreId: message.restoreId,
+						cwd: cwds[message.restoreId],
+						customTitle: customTitles.has(message.restoreId),
+					}
+				: undefined,
+		);
+		if (id && message.layout) {
+			this.restoreSplitLayout(
+				message.layout,
+				id,
+				message.paneTitles ?? {},
+				cwds,
+				customTitles,
+			);
+		}
+	}
+
 	/** Create terminal in panel tab with specific title (for state restoration) */
 	private createPanelTerminalWithTitle(
 		title: string,
 		makeActive: boolean,
+		split?: PanelSplit,
+		restore?: PanelRestore,
 	): TerminalId | null {
-		const id = createTerminalId();
-		const cwd = getWorkspaceCwd();
+		// A shell kept running by the PTY host keeps its ID, so it can be reattached
+		const reattach =
+			restore !== undefined &&
+			this.ptyService.hasDetachedSession(restore.restoreId);
+		const id = reattach ? restore.restoreId : createTerminalId();
+		const restoredCwd = isExistingDirectory(restore?.cwd)
+			? restore.cwd
+			: undefined;
+		const cwd = restoredCwd ?? getWorkspaceCwd();
 
 		// Extract and reserve index from "Terminal N" pattern to avoid conflicts
 		const indexMatch = title.match(/^Terminal (\d+)$/);
@@ -348,60 +833,171 @@ export class TerminalManager implements vscode.Disposable {
 			location: "panel",
 			config: { cwd },
 			ready: false,
-			dataQueue: [],
+			dataQueue: createOutputQueue(),
+			...this.createOutputFlow(id),
+			...this.createOutputParsers(id),
 			title,
+			customTitle: restore?.customTitle,
 			index,
+			currentCwd: restoredCwd,
 		};
 		this.terminals.set(id, instance);
 
-		// Spawn PTY
-		const spawnResult = this.spawnPty(id, { cwd });
+		// Spawn PTY (or reattach to the running one)
+		const spawnResult = this.startBackend(id, { cwd }, undefined, reattach);
 		if (!spawnResult.ok) {
 			this.terminals.delete(id);
 			this.releaseIndex(index);
 			return null;
 		}
 
-		// Set ready timeout
-		instance.readyTimeout = setTimeout(() => {
-			if (!instance.ready) {
-				vscode.window.showErrorMessage(
-					"Terminal failed to initialize (timeout)",
-				);
-				this.destroyTerminal(id);
-			}
-		}, READY_TIMEOUT_MS);
+		this.startReadyTimeout(instance);
 
-		// Add tab to panel with specified title and active state
-		this.panelProvider.addTerminal(id, title, makeActive);
+		// Reattached shells replay their own output instead of the saved scrollback
+		this.attachPanelTerminal(
+			id,
+			title,
+			makeActive,
+			split,
+			reattach ? undefined : restore?.restoreId,
+		);
+		return id;
+	}
+
+	/** Add a panel terminal to the webview (as tab or split pane) and tree view */
+	private attachPanelTerminal(
+		id: TerminalId,
+		title: string,
+		makeActive: boolean,
+		split?: PanelSplit,
+		restoreId?: TerminalId,
+	): void {
+		// Panel handles message routing for both tabs and panes
+		if (split) {
+			this.panelProvider.addPane(
+				id,
+				title,
+				split.targetId,
+				split.direction,
+				split.ratio,
+				makeActive,
+				restoreId,
+			);
+		} else {
+			this.panelProvider.addTerminal(id, title, makeActive, restoreId);
+		}
+		// The webview saves whether a title was set by the user
+		const instance = this.terminals.get(id);
+		if (instance?.customTitle) {
+			this.panelProvider.renameTerminal(id, title, true);
+		}
 
-		// Add to tree provider
-		this.treeProvider.addTerminal({ id, title, active: makeActive });
+		// Each pane is listed in the tree view (like VS Code's split terminals)
+		const config = instance?.config;
+		this.treeProvider.addTerminal({
+			id,
+			title,
+			active: makeActive,
+			icon: config?.icon,
+			color: config?.color,
+		});
+	}
 
-		return id;
+	/** Split an existing panel terminal, reusing its profile and starting in its cwd */
+	private splitPanelTerminal(
+		targetId: TerminalId,
+		direction: SplitDirection,
+	): TerminalId | null {
+		const target = this.terminals.get(targetId);
+		if (!target || target.location !== "panel") return null;
+
+		const cwd = target.currentCwd ?? target.config.cwd ?? getWorkspaceCwd();
+		return this.createPanelTerminal(
+			{ ...target.config, location: "panel", cwd },
+			{ targetId, direction, ratio: 0.5 },
+		);
+	}
+
+	/** Recreate the panes of a saved split layout around a restored terminal */
+	private restoreSplitLayout(
+		layout: PaneLayout,
+		rootId: TerminalId,
+		paneTitles: Record<string, string>,
+		cwds: Record<string, string>,
+		customTitles: Set<TerminalId>,
+	): void {
+		const steps = planSplitRestore(layout);
+		if (steps.length === 0) return;
+
+		// Saved IDs -> IDs of the recreated terminals
+		const idMap = new Map<TerminalId, TerminalId>();
+		idMap.set(steps[0].targetId, rootId);
+
+		for (const step of steps) {
+			const targetId = idMap.get(step.targetId);
+			if (!targetId) continue; // Parent pane failed to spawn
+			const id = this.createPanelTerminalWithTitle(
+				paneTitles[step.newId] ?? "Terminal",
+				false,
+				{ targetId, direction: step.direction, ratio: step.ratio },
+				{
+					restoreId: step.newId,
+					cwd: cwds[step.newId],
+					customTitle: customTitles.has(step.newId),
+				},
+			);
+			if (id) {
+				idMap.set(step.newId, id);
+			}
+		}
 	}
 
-	/** Spawn PTY process for terminal */
-	private spawnPty(
+	/**
+	 * Start the terminal's backend: a pseudoterminal if given, else a PTY shell
+	 * (`reattach` connects to the PTY host session with the same ID instead)
+	 */
+	private startBackend(
 		id: TerminalId,
 		config?: Partial<TerminalConfig>,
+		pty?: vscode.Pseudoterminal,
+		reattach = false,
 	): { ok: true } | { ok: false; error: string } {
-		const resolvedConfig = resolveConfig(config);
-		const result = this.ptyService.spawn(id, resolvedConfig, {
-			onData: (data) => this.handlePtyData(id, data),
-			onExit: (code) => this.handlePtyExit(id, code),
-			onError: (error) => this.handlePtyError(id, error),
-		});
+		const handlers = {
+			onData: (data: string) => this.handlePtyData(id, data),
+			onExit: (code: number) => this.handlePtyExit(id, code),
+			onError: (error: Error) => this.handlePtyError(id, error),
+		};
 
+		if (pty) {
+			this.backends.set(id, createPseudoterminalBackend(pty, handlers));
+			this.pseudoterminals.add(id);
+			return { ok: true };
+		}
+
+		// Editor terminals aren't restored after a reload, so their shells
+		// mustn't outlive the window in the PTY host
+		const persistent = this.terminals.get(id)?.location === "panel";
+		const result = reattach
+			? this.ptyService.attach(id, handlers)
+			: this.ptyService.spawn(id, resolveConfig(config), handlers, persistent);
 		if (!result.ok) {
+			log.error(`Failed to start terminal ${id}: ${result.error}`);
 			vscode.window.showErrorMessage(
 				`Failed to start terminal: ${result.error}`,
 			);
 			return { ok: false, error: result.error };
 		}
+		this.backends.set(id, result.backend);
 		return { ok: true };
 	}
 
+	/** Kill a terminal's backend (safe to call if already dead) */
+	private killBackend(id: TerminalId): void {
+		this.backends.get(id)?.kill();
+		this.backends.delete(id);
+		this.pseudoterminals.delete(id);
+	}
+
 	/** Handle messages from panel webview */
 	handlePanelMessage(message: PanelWebviewMessage): void {
 		switch (message.type) {
@@ -422,8 +1018,9 @@ export class TerminalManager implements vscode.Disposable {
 					message.cols,
 					message.rows,
 				);
-				// Update tree view selection
+				// Update tree view selection and the panel's progress
 				this.treeProvider.setActiveTerminal(message.terminalId);
+				this.panelProvider.setActiveTerminal(message.terminalId);
 				break;
 			case "tab-close-requested":
 				this.destroyTerminal(message.terminalId);
@@ -432,7 +1029,10 @@ export class TerminalManager implements vscode.Disposable {
 				this.createTerminal({ location: "panel", cwd: getWorkspaceCwd() });
 				break;
 			case "new-tab-requested-with-title":
-				this.createPanelTerminalWithTitle(message.title, message.makeActive);
+				this.restorePanelTab(message);
+				break;
+			case "split-requested":
+				this.splitPanelTerminal(message.terminalId, message.direction);
 				break;
 			case "tab-renamed":
 				this.handleTabRenamed(message.terminalId, message.title);
@@ -472,7 +1072,12 @@ export class TerminalManager implements vscode.Disposable {
 				this.handleOpenUrl(message.url);
 				break;
 			case "open-file":
-				this.handleOpenFile(message.path, message.line, message.column);
+				this.handleOpenFile(
+					message.terminalId,
+					message.path,
+					message.line,
+					message.column,
+				);
 				break;
 			case "batch-check-file-exists":
 				this.handleBatchCheckFileExists(
@@ -484,6 +1089,20 @@ export class TerminalManager implements vscode.Disposable {
 			case "terminal-bell":
 				this.handleTerminalBell(message.terminalId);
 				break;
+			case "pty-data-ack":
+				this.terminals
+					.get(message.terminalId)
+					?.flow.acknowledge(message.charCount);
+				break;
+			case "scrollback-exported":
+				this.exportRequests.get(message.requestId)?.(message.content);
+				break;
+			case "log":
+				log.write(message.level, `[webview] ${message.message}`);
+				break;
+			case "wasm-loaded":
+				this.handleWasmLoaded(message);
+				break;
 		}
 	}
 
@@ -492,6 +1111,7 @@ export class TerminalManager implements vscode.Disposable {
 		const instance = this.terminals.get(id);
 		if (instance) {
 			instance.title = title;
+			instance.customTitle = true;
 		}
 	}
 
@@ -505,75 +1125,197 @@ export class TerminalManager implements vscode.Disposable {
 		return false;
 	}
 
-	/** Parse OSC 7 escape sequence for CWD tracking */
-	private parseOSC7(data: string): string | undefined {
-		// OSC 7 format: ESC ] 7 ; file://hostname/path ESC \ (or BEL)
-		const match = data.match(
-			/\x1b\]7;file:\/\/[^/]*([^\x07\x1b]+)(?:\x07|\x1b\\)/,
-		);
-		if (match) {
-			return decodeURIComponent(match[1]);
+	/**
+	 * Create a terminal's OSC parser with the extension host's handlers:
+	 * OSC 7 (cwd), OSC 0/2 (window title), OSC 9/777/99 (notifications) and
+	 * OSC 133 (prompt marks, for the command tracker)
+	 */
+	private createOutputParsers(
+		id: TerminalId,
+	): Pick<TerminalInstance, "oscParser" | "commandTracker"> {
+		const parser = createOscParser();
+		const notifications = createNotificationParser();
+
+		parser.register(7, (params) => {
+			const cwd = parseOSC7Path(params);
+			const instance = this.terminals.get(id);
+			if (!cwd || !instance) return;
+			instance.currentCwd = cwd;
+			// Notify webview of CWD change for relative path resolution
+			if (instance.ready) {
+				this.postToTerminal(id, { type: "update-cwd", terminalId: id, cwd });
+			}
+			this.refreshTitle(instance, true);
+		});
+
+		for (const code of [0, 2]) {
+			parser.register(code, (title) => {
+				const instance = this.terminals.get(id);
+				if (!instance) return;
+				instance.sequenceTitle = title;
+				this.refreshTitle(instance, true);
+			});
 		}
-		return undefined;
-	}
 
-	/** Parse OSC 9 escape sequence for notifications (iTerm2 style) */
-	private parseOSC9(data: string): string | undefined {
-		// OSC 9 format: ESC ] 9 ; message BEL (or ST)
-		// ESC = \x1b, BEL = \x07, ST = ESC \
-		const match = data.match(/\x1b\]9;([^\x07\x1b]*)(?:\x07|\x1b\\)/);
-		if (match) {
-			return match[1];
+		for (const code of NOTIFICATION_OSC_CODES) {
+			parser.register(code, (params) => {
+				const notification = notifications.parse(code, params);
+				if (notification?.type === "progress") {
+					this.updateProgress(id, notification.progress);
+				} else if (notification) {
+					this.showTerminalNotification(id, notification);
+				}
+			});
 		}
-		return undefined;
+		return { oscParser: parser, commandTracker: createCommandTracker(parser) };
 	}
 
-	/** Show VS Code notification for OSC 9 message */
-	private handleOSC9Notification(message: string): void {
+	/** Show a notification from terminal output, naming the terminal that sent it */
+	private async showTerminalNotification(
+		id: TerminalId,
+		notification: Extract<TerminalNotification, { type: "message" }>,
+	): Promise<void> {
 		const enabled = vscode.workspace
 			.getConfiguration("bootty")
 			.get<boolean>("notifications", true);
-		if (!enabled) return;
-
-		vscode.window.showInformationMessage(message);
+		const instance = this.terminals.get(id);
+		if (!enabled || !instance) return;
+
+		const text = notification.title
+			? `${notification.title}: ${notification.body}`
+			: notification.body;
+		const selection = await vscode.window.showInformationMessage(
+			`${instance.title}: ${text}`,
+			"Show Terminal",
+		);
+		if (selection === "Show Terminal") {
+			await this.showTerminal(id);
+		}
 	}
 
-	private handlePtyData(id: TerminalId, data: string): void {
+	/**
+	 * Show OSC 9;4 progress on the terminal's tab (terminal list entry and
+	 * panel title, or editor title) and in a progress notification; undefined removes it
+	 */
+	private updateProgress(
+		id: TerminalId,
+		progress: TerminalProgress | undefined,
+	): void {
 		const instance = this.terminals.get(id);
 		if (!instance) return;
+		instance.progress = progress;
 
-		// Check for OSC 7 CWD update
-		const cwd = this.parseOSC7(data);
-		if (cwd) {
-			instance.currentCwd = cwd;
-			// Notify webview of CWD change for relative path resolution
-			if (instance.ready) {
-				this.postToTerminal(id, {
-					type: "update-cwd",
-					terminalId: id,
-					cwd,
-				});
-			}
+		if (instance.location === "editor") {
+			this.showTitle(instance);
+		} else {
+			const text = progress ? formatProgress(progress) : undefined;
+			this.treeProvider.setProgress(id, text);
+			this.panelProvider.setProgress(id, text);
 		}
 
-		// Check for OSC 9 notification
-		const notification = this.parseOSC9(data);
+		const notification = this.progressNotifications.get(id);
+		if (!progress) {
+			notification?.close();
+			this.progressNotifications.delete(id);
+			return;
+		}
 		if (notification) {
-			this.handleOSC9Notification(notification);
+			notification.update(progress);
+			return;
 		}
+		const enabled = vscode.workspace
+			.getConfiguration("bootty")
+			.get<boolean>("notifications", true);
+		if (enabled) {
+			const created = showProgressNotification(instance.title);
+			created.update(progress);
+			this.progressNotifications.set(id, created);
+		}
+	}
 
-		if (!instance.ready) {
-			// Buffer until ready, with cap to prevent memory bloat
-			if (instance.dataQueue.length < MAX_DATA_QUEUE_SIZE) {
-				instance.dataQueue.push(data);
+	/** Show a terminal's title on its panel tab and list entry, or its editor tab */
+	private showTitle(instance: TerminalInstance): void {
+		if (instance.location === "panel") {
+			this.panelProvider.renameTerminal(
+				instance.id,
+				instance.title,
+				instance.customTitle ?? false,
+			);
+			this.treeProvider.renameTerminal(instance.id, instance.title);
+		} else {
+			instance.panel.title = instance.progress
+				? `${instance.title} ${formatProgress(instance.progress)}`
+				: instance.title;
+		}
+	}
+
+	/**
+	 * Recompute a terminal's automatic title from the bootty.tabTitle template
+	 * (titles set by the user are kept). The foreground process is checked at
+	 * most once per PROCESS_TITLE_INTERVAL_MS, and only if the template uses it.
+	 */
+	private refreshTitle(instance: TerminalInstance, changed = false): void {
+		if (instance.customTitle) return;
+		const template = this.tabTitleTemplate;
+
+		if (usesTitleVariable(template, "process")) {
+			const now = Date.now();
+			if (now - (instance.processCheckedAt ?? 0) >= PROCESS_TITLE_INTERVAL_MS) {
+				instance.processCheckedAt = now;
+				const processName = this.backends.get(instance.id)?.getProcessName?.();
+				if (processName !== instance.processName) {
+					instance.processName = processName;
+					changed = true;
+				}
 			}
-			// Silently drop if over cap (better than OOM)
+		}
+		if (!changed) return;
+
+		const title =
+			formatTabTitle(template, {
+				sequence: instance.sequenceTitle,
+				process: instance.processName,
+				cwd: instance.currentCwd ?? instance.config.cwd,
+			}) ||
+			(instance.index !== undefined
+				? `Terminal ${instance.index}`
+				: "Terminal");
+		if (title === instance.title) return;
+		instance.title = title;
+		this.showTitle(instance);
+	}
+
+	/** Reveal a terminal: its editor tab, or its panel tab */
+	async showTerminal(id: TerminalId): Promise<void> {
+		const instance = this.terminals.get(id);
+		if (!instance) return;
+		if (instance.location === "editor") {
+			instance.panel.reveal();
+			return;
+		}
+		await this.panelProvider.show();
+		this.panelProvider.activateTerminal(id);
+		this.panelProvider.focusTerminal();
+	}
+
+	private handlePtyData(id: TerminalId, data: string): void {
+		const instance = this.terminals.get(id);
+		if (!instance) return;
+
+		// OSC sequences (cwd, window title, notifications, prompt marks), then
+		// track commands at the prompt marks (OSC 133)
+		instance.oscParser.feed(data);
+		instance.commandTracker.feed(data);
+		this._onDidWriteData.fire({ terminalId: id, data });
+		this.refreshTitle(instance);
+
+		if (!instance.ready) {
+			// Hold until ready (oldest output is discarded past the byte limit);
+			// counted for flow control, so the PTY pauses while the webview loads
+			instance.dataQueue.push(data);
+			instance.flow.sent(data.length);
 		} else {
-			this.postToTerminal(id, {
-				type: "pty-data",
-				terminalId: id,
-				data,
-			});
+			instance.output.push(data);
 		}
 	}
 
@@ -591,8 +1333,9 @@ export class TerminalManager implements vscode.Disposable {
 			instance.readyTimeout = undefined;
 		}
 
-		// Resize PTY to webview-measured dimensions
-		this.ptyService.resize(id, cols, rows);
+		// Resize PTY to webview-measured dimensions (opens pseudoterminals)
+		instance.dimensions = { cols, rows };
+		this.backends.get(id)?.resize(cols, rows);
 
 		// Mark ready BEFORE posting messages so postToTerminal works
 		instance.ready = true;
@@ -620,20 +1363,100 @@ export class TerminalManager implements vscode.Disposable {
 			config,
 		});
 
-		// Flush buffered data
-		for (const data of instance.dataQueue) {
+		// Known cwd (restored or moved terminals) for relative file links
+		if (instance.currentCwd) {
 			this.postToTerminal(id, {
-				type: "pty-data",
+				type: "update-cwd",
 				terminalId: id,
-				data,
+				cwd: instance.currentCwd,
 			});
 		}
-		instance.dataQueue = [];
+
+		// Flush held data (a new webview has acknowledged nothing yet)
+		instance.flow.reset();
+		const queued = instance.dataQueue.drain();
+		if (queued) {
+			instance.output.push(queued);
+			instance.output.flush();
+		}
 	}
 
 	private handleTerminalInput(id: TerminalId, data: string): void {
+		const instance = this.terminals.get(id);
+		if (instance?.restartOnEnter) {
+			if (data.includes("\r")) this.respawnShell(instance);
+			return;
+		}
 		// Forward webview input to PTY
-		this.ptyService.write(id, data);
+		this.backends.get(id)?.write(data);
+	}
+
+	/** Write text to a terminal's PTY (returns false if the terminal doesn't exist) */
+	sendText(id: TerminalId, text: string): boolean {
+		const backend = this.backends.get(id);
+		if (!backend) return false;
+		backend.write(text);
+		return true;
+	}
+
+	/** Get a terminal's current working directory (OSC 7, else its starting cwd) */
+	getCwd(id: TerminalId): string | undefined {
+		const instance = this.terminals.get(id);
+		return instance?.currentCwd ?? instance?.config.cwd;
+	}
+
+	/** Snapshot of all terminals in creation order */
+	getTerminalInfos(): TerminalInfo[] {
+		return [...this.terminals.values()].map((instance) => ({
+			id: instance.id,
+			title: instance.title,
+			location: instance.location,
+			cwd: instance.currentCwd ?? instance.config.cwd,
+			exitCode: instance.exitCode,
+		}));
+	}
+
+	/** Terminal states and recent WASM loads for "BooTTY: Collect Diagnostics" */
+	getDiagnostics(): {
+		terminals: TerminalDiagnostics[];
+		wasmLoads: WasmLoadDiagnostics[];
+	} {
+		const terminals = [...this.terminals.values()].map(
+			(instance): TerminalDiagnostics => ({
+				title: instance.title,
+				location: instance.location,
+				backend: this.getBackendKind(instance.id),
+				ready: instance.ready,
+				exitCode: instance.exitCode,
+				launch: this.ptyService.getLaunch(instance.id),
+			}),
+		);
+		return { terminals, wasmLoads: [...this.wasmLoads] };
+	}
+
+	private getBackendKind(id: TerminalId): TerminalDiagnostics["backend"] {
+		if (this.pseudoterminals.has(id)) return "pseudoterminal";
+		if (!this.backends.has(id)) return undefined;
+		return this.ptyService.isInHost(id) ? "pty host" : "pty";
+	}
+
+	/** Record a webview's ghostty-web load time */
+	private handleWasmLoaded(
+		message: Extract<WebviewMessage, { type: "wasm-loaded" }>,
+	): void {
+		const { webview, loadTimeMs, attempts } = message;
+		log.info(
+			`ghostty-web loaded in the ${webview} webview in ${loadTimeMs} ms (${attempts} ${attempts === 1 ? "attempt" : "attempts"})`,
+		);
+		this.wasmLoads.push({
+			time: new Date().toISOString(),
+			webview,
+			loadTimeMs,
+			attempts,
+		});
+		if (this.wasmLoads.length > MAX_WASM_LOAD_RECORDS) {
+			this.wasmLoads.shift();
+		}
 	}
 
 	private handleTerminalResize(
@@ -642,35 +1465,52 @@ export class TerminalManager implements vscode.Disposable {
 		rows: number,
 	): void {
 		// Webview detected resize, propagate to PTY
-		this.ptyService.resize(id, cols, rows);
+		const instance = this.terminals.get(id);
+		if (instance) instance.dimensions = { cols, rows };
+		this.backends.get(id)?.resize(cols, rows);
 	}
 
-	// Allowed URL schemes for external opening (security: prevent command injection)
-	private static readonly ALLOWED_URL_SCHEMES = new Set([
-		"http",
-		"https",
-		"mailto",
-		"ftp",
-		"ssh",
-		"git",
-		"tel",
-	]);
-
-	private handleOpenUrl(url: string): void {
+	private async handleOpenUrl(url: string): Promise<void> {
 		// Parse and validate URL before opening
 		let uri: vscode.Uri;
 		try {
 			uri = vscode.Uri.parse(url, true); // strict mode
 		} catch {
-			console.warn(`[bootty] Invalid URL: ${url}`);
+			vscode.window.showWarningMessage(`BooTTY: Invalid link: ${url}`);
 			return;
 		}
 
-		// Security: only allow safe schemes (prevent command:, vscode:, file: etc.)
-		if (!TerminalManager.ALLOWED_URL_SCHEMES.has(uri.scheme)) {
-			console.warn(
-				`[bootty] Blocked URL with disallowed scheme: ${uri.scheme}`,
+		// Security: only open allowed schemes (terminal output is untrusted)
+		const links = getLinkSettings();
+		const scheme = uri.scheme.toLowerCase();
+		if (!links.allowedSchemes.has(scheme)) {
+			this.showBlockedLink(scheme);
+			return;
+		}
+
+		// Simple Browser only renders web pages
+		const canPreview = scheme === "http" || scheme === "https";
+		let behavior = links.openBehavior[scheme] ?? "external";
+		if (behavior === "ask") {
+			const choice = await vscode.window.showInformationMessage(
+				"Open link from terminal?",
+				{ modal: true, detail: url },
+				...(canPreview
+					? ["Open in Browser", "Open in Simple Browser"]
+					: ["Open"]),
+				"Copy Link",
 			);
+			if (!choice) return;
+			if (choice === "Copy Link") {
+				await vscode.env.clipboard.writeText(url);
+				return;
+			}
+			behavior =
+				choice === "Open in Simple Browser" ? "simpleBrowser" : "external";
+		}
+
+		if (behavior === "simpleBrowser" && canPreview) {
+			await vscode.commands.executeCommand("simpleBrowser.show", url);
 			return;
 		}
 
@@ -678,22 +1518,44 @@ export class TerminalManager implements vscode.Disposable {
 		vscode.env.openExternal(uri).then(
 			(success) => {
 				if (!success) {
-					console.warn(`[bootty] Failed to open URL: ${url}`);
+					log.warn(`Failed to open URL: ${url}`);
 				}
 			},
 			(error) => {
-				console.error(`[bootty] Error opening URL: ${error}`);
+				log.error(`Error opening URL ${url}: ${formatError(error)}`);
 			},
 		);
 	}
 
+	/** Tell the user why a link was blocked (and how to allow it, if possible) */
+	private async showBlockedLink(scheme: string): Promise<void> {
+		if (BLOCKED_URL_SCHEMES.has(scheme)) {
+			vscode.window.showWarningMessage(
+				`BooTTY: Blocked a "${scheme}:" link. Links with this scheme can run code, so they are never opened from terminal output.`,
+			);
+			return;
+		}
+		const selection = await vscode.window.showWarningMessage(
+			`BooTTY: Blocked a "${scheme}:" link. Add "${scheme}" to bootty.links.allowedSchemes to open these links.`,
+			"Open Settings",
+		);
+		if (selection === "Open Settings") {
+			vscode.commands.executeCommand(
+				"workbench.action.openSettings",
+				"bootty.links.allowedSchemes",
+			);
+		}
+	}
+
 	private async handleOpenFile(
+		terminalId: TerminalId,
 		path: string,
 		line?: number,
 		column?: number,
 	): Promise<void> {
 		try {
-			const uri = vscode.Uri.file(path);
+			const uri = await this.resolveFileLink(terminalId, path);
+			if (!uri) return;
 			const doc = await vscode.workspace.openTextDocument(uri);
 			const editor = await vscode.window.showTextDocument(doc);
 
@@ -709,10 +1571,81 @@ export class TerminalManager implements vscode.Disposable {
 				);
 			}
 		} catch (error) {
-			console.warn(`[bootty] Failed to open file: ${path}`, error);
+			log.warn(`Failed to open file ${path}: ${formatError(error)}`);
 		}
 	}
 
+	/**
+	 * Resolve a clicked file link, falling back to a workspace search
+	 * Asks which file to open when several match; undefined if dismissed.
+	 */
+	private async resolveFileLink(
+		terminalId: TerminalId,
+		path: string,
+	): Promise<vscode.Uri | undefined> {
+		const uri = vscode.Uri.file(path);
+		if (await this.fileExists(uri)) return uri;
+
+		const matches = await this.findWorkspaceFiles(terminalId, path);
+		// No match: open the original path so the failure is logged as before
+		if (matches.length <= 1) return matches[0] ?? uri;
+
+		const picked = await vscode.window.showQuickPick(
+			matches
+				.map((match) => ({
+					label: vscode.workspace.asRelativePath(match),
+					uri: match,
+				}))
+				.sort((a, b) => a.label.localeCompare(b.label)),
+			{ placeHolder: `Multiple files match ${path.split(/[\\/]/).pop()}` },
+		);
+		return picked?.uri;
+	}
+
+	private async fileExists(uri: vscode.Uri): Promise<boolean> {
+		try {
+			await vscode.workspace.fs.stat(uri);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+
+	/** Workspace files matching a linked path that doesn't exist under the cwd */
+	private async findWorkspaceFiles(
+		terminalId: TerminalId,
+		path: string,
+	): Promise<vscode.Uri[]> {
+		if (!vscode.workspace.workspaceFolders?.length) return [];
+		const glob = getWorkspaceSearchGlob(path, this.getCwd(terminalId));
+		if (!glob) return [];
+		return vscode.workspace.findFiles(
+			glob,
+			undefined,
+			MAX_WORKSPACE_LINK_MATCHES,
+		);
+	}
+
+	/**
+	 * Whether a workspace search finds a linked path (for link validation)
+	 * Results are cached: the same candidates are checked again and again while
+	 * output scrolls. Clicks search afresh (findWorkspaceFiles).
+	 */
+	private async hasWorkspaceFile(
+		terminalId: TerminalId,
+		path: string,
+	): Promise<boolean> {
+		if (!vscode.workspace.workspaceFolders?.length) return false;
+		const glob = getWorkspaceSearchGlob(path, this.getCwd(terminalId));
+		if (!glob) return false;
+		const cached = this.workspaceSearchCache.get(glob);
+		if (cached !== undefined) return cached;
+		const found =
+			(await vscode.workspace.findFiles(glob, undefined, 1)).length > 0;
+		this.workspaceSearchCache.set(glob, found);
+		return found;
+	}
+
 	private async handleBatchCheckFileExists(
 		terminalId: TerminalId,
 		batchId: number,
@@ -721,15 +1654,14 @@ export class TerminalManager implements vscode.Disposable {
 		const instance = this.terminals.get(terminalId);
 		if (!instance) return;
 
-		// Check all paths in parallel
+		// Check all paths in parallel; missing relative paths may still match
+		// a file elsewhere in the workspace
 		const results = await Promise.all(
 			paths.map(async (path) => {
-				try {
-					await vscode.workspace.fs.stat(vscode.Uri.file(path));
+				if (await this.fileExists(vscode.Uri.file(path))) {
 					return { path, exists: true };
-				} catch {
-					return { path, exists: false };
 				}
+				return { path, exists: await this.hasWorkspaceFile(terminalId, path) };
 			}),
 		);
 
@@ -770,14 +1702,38 @@ export class TerminalManager implements vscode.Disposable {
 
 	private handlePtyExit(id: TerminalId, exitCode: number): void {
 		const instance = this.terminals.get(id);
-		if (!instance) return;
+		// Already exited (a terminated process can still report its exit)
+		if (!instance || instance.exitCode !== undefined) return;
+		instance.exitCode = exitCode;
+		log.info(`Terminal ${id} exited with code ${exitCode}`);
+		// A process that exits mid-task leaves no progress behind
+		this.updateProgress(id, undefined);
+		instance.output.flush(); // Last output before the exit message
+
+		// Task terminals stay open for reuse; shells follow bootty.onExit
+		const keepOpen =
+			instance.config.closeOnExit === false ||
+			!shouldCloseOnExit(getExitBehavior(), exitCode);
+		// Pseudoterminals have no shell to respawn
+		instance.restartOnEnter =
+			keepOpen &&
+			instance.config.closeOnExit !== false &&
+			!this.pseudoterminals.has(id);
 
 		// Notify webview of exit (shows "[Process exited with code N]")
 		this.postToTerminal(id, {
 			type: "pty-exit",
 			terminalId: id,
 			exitCode,
+			restartable: instance.restartOnEnter,
 		});
+		this._onDidExitProcess.fire({ terminalId: id, exitCode });
+
+		// Keep the tab (and its output) until the user closes it or it is restarted
+		if (keepOpen) {
+			this.killBackend(id);
+			return;
+		}
 
 		// Close panel after brief delay to allow user to see exit message
 		// (Aligns with success criteria: "Exit command closes terminal cleanly")
@@ -794,6 +1750,7 @@ export class TerminalManager implements vscode.Disposable {
 		const isExpectedClose =
 			error.message.includes("EIO") || error.message.includes("EOF");
 		if (!isExpectedClose) {
+			log.error(`Terminal ${id} error: ${error.message}`);
 			vscode.window.showErrorMessage(`Terminal error: ${error.message}`);
 		}
 		this.destroyTerminal(id);
@@ -814,8 +1771,16 @@ export class TerminalManager implements vscode.Disposable {
 			instance.readyTimeout = undefined;
 		}
 
+		this.progressNotifications.get(id)?.close();
+		this.progressNotifications.delete(id);
+		instance.output.dispose();
+
 		// Kill PTY process (safe to call if already dead)
-		this.ptyService.kill(id);
+		this.killBackend(id);
+		this._onDidCloseTerminal.fire({
+			terminalId: id,
+			exitCode: instance.exitCode,
+		});
 
 		// Location-aware teardown
 		if (instance.location === "editor") {
@@ -847,32 +1812,116 @@ export class TerminalManager implements vscode.Disposable {
 		this.destroyTerminal(id);
 	}
 
-	/** Rename a terminal (updates panel tab and tree view) */
+	/**
+	 * Stop a terminal's process but keep its tab and output (e.g., a terminated task)
+	 * The terminal is treated as exited (with TERMINATED_EXIT_CODE) and follows
+	 * the usual exit handling, so it can be restarted.
+	 */
+	terminateProcess(id: TerminalId): void {
+		const instance = this.terminals.get(id);
+		if (!instance || instance.exitCode !== undefined) return;
+		this.killBackend(id);
+		this.handlePtyExit(id, TERMINATED_EXIT_CODE);
+	}
+
+	/** Start a new shell in a terminal whose process has exited, keeping its output */
+	restartTerminal(id: TerminalId, config: Partial<TerminalConfig>): boolean {
+		const instance = this.terminals.get(id);
+		if (!instance || instance.exitCode === undefined) return false;
+
+		instance.config = { ...config, location: instance.location };
+		instance.currentCwd = undefined;
+		return this.startExitedBackend(instance);
+	}
+
+	/**
+	 * Restart an exited shell kept open by bootty.onExit (Enter pressed)
+	 * It starts in the last working directory, below the old output.
+	 */
+	private respawnShell(instance: TerminalInstance): void {
+		instance.config = {
+			...instance.config,
+			cwd: instance.currentCwd ?? instance.config.cwd,
+		};
+		log.info(`Restarting terminal ${instance.id} in ${instance.config.cwd}`);
+		const exitCode = instance.exitCode;
+		if (!this.startExitedBackend(instance)) {
+			// Stay exited so Enter can try again
+			instance.exitCode = exitCode;
+			instance.restartOnEnter = true;
+			return;
+		}
+		// Output arrives asynchronously, so the separator comes first
+		this.postToTerminal(instance.id, {
+			type: "pty-restart",
+			terminalId: instance.id,
+		});
+		instance.sequenceTitle = undefined;
+		instance.processCheckedAt = undefined;
+		this.refreshTitle(instance, true);
+	}
+
+	/** Spawn a new shell for an exited terminal, with fresh per-process state */
+	private startExitedBackend(instance: TerminalInstance): boolean {
+		instance.exitCode = undefined;
+		instance.restartOnEnter = false;
+		Object.assign(instance, this.createOutputParsers(instance.id));
+		instance.flow.reset();
+
+		// Spawn at the current size (the webview is already ready)
+		const spawnResult = this.startBackend(instance.id, {
+			...instance.config,
+			...instance.dimensions,
+		});
+		return spawnResult.ok;
+	}
+
+	/**
+	 * Rename a terminal (updates panel tab and tree view)
+	 * The name wins over automatic titles; an empty name restores them.
+	 */
 	renameTerminal(id: TerminalId, title: string): void {
 		const instance = this.terminals.get(id);
 		if (!instance) return;
 
-		instance.title = title;
-
-		if (instance.location === "panel") {
-			this.panelProvider.renameTerminal(id, title);
-			this.treeProvider.renameTerminal(id, title);
+		instance.customTitle = title !== "";
+		if (instance.customTitle) {
+			instance.title = title;
+			this.showTitle(instance);
+		} else {
+			const previous = instance.title;
+			this.refreshTitle(instance, true);
+			// Unchanged titles still need the webview's custom flag cleared
+			if (instance.title === previous) this.showTitle(instance);
 		}
-		// Editor terminals: title is shown in panel title, which we could also update
 	}
 
 	dispose(): void {
+		// Editor terminals aren't restored, so end their shells (including ones
+		// moved from the panel into the PTY host) rather than orphan them
+		for (const [id, instance] of this.terminals) {
+			if (instance.location === "editor") this.killBackend(id);
+		}
+		// Then the rest, so shells owned by the PTY host are detached rather than killed
+		this.ptyService.dispose();
 		for (const [id, instance] of this.terminals) {
 			if (instance.readyTimeout) {
 				clearTimeout(instance.readyTimeout);
 			}
-			this.ptyService.kill(id);
+			instance.output.dispose();
+			this.killBackend(id);
 			if (instance.location === "editor") {
 				instance.panel.dispose();
 			}
 			// Panel terminals: don't dispose panel WebviewView, just let it clean up
 		}
 		this.terminals.clear();
-		this.ptyService.dispose();
+		for (const notification of this.progressNotifications.values()) {
+			notification.close();
+		}
+		this.progressNotifications.clear();
+		this._onDidWriteData.dispose();
+		this._onDidCloseTerminal.dispose();
+		this._onDidExitProcess.dispose();
 	}
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { expandProfileCwd, parseProfiles } from "./terminal-profiles";
+
+// biome-ignore lint/suspicious/noTemplateCurlyInString: Settings variable syntax, not a template
+const WORKSPACE_FOLDER = "${workspaceFolder}";
+
+describe("terminal-profiles", () => {
+	describe("parseProfiles", () => {
+		it("returns no profiles for missing or invalid settings", () => {
+			expect(parseProfiles(undefined)).toEqual([]);
+			expect(parseProfiles([])).toEqual([]);
+			expect(parseProfiles("zsh")).toEqual([]);
+		});
+
+		it("parses all profile fields", () => {
+			expect(
+				parseProfiles({
+					"zsh (login)": {
+						path: "/bin/zsh",
+						args: ["-l"],
+						env: { FOO: "bar" },
+						cwd: "~/src",
+						icon: "terminal-bash",
+						color: "terminal.ansiCyan",
+					},
+				}),
+			).toEqual([
+				{
+					name: "zsh (login)",
+					path: "/bin/zsh",
+					args: ["-l"],
+					env: { FOO: "bar" },
+					cwd: "~/src",
+					icon: "terminal-bash",
+					color: "terminal.ansiCyan",
+				},
+			]);
+		});
+
+		it("skips disabled profiles and drops invalid fields", () => {
+			expect(
+				parseProfiles({
+					disabled: null,
+					python: { path: "", args: ["-i", 3], env: { A: "1", B: 2 } },
+				}),
+			).toEqual([{ name: "python", args: ["-i"], env: { A: "1" } }]);
+		});
+	});
+
+	describe("expandProfileCwd", () => {
+		const vars = { workspaceFolder: "/ws", userHome: "/home/me" };
+
+		it("expands variables and a leading tilde", () => {
+			expect(expandProfileCwd(`${WORKSPACE_FOLDER}/app`, vars)).toBe("/ws/app");
+			expect(expandProfileCwd("~/src", vars)).toBe("/home/me/src");
+			expect(expandProfileCwd("~", vars)).toBe("/home/me");
+		});
+
+		it("leaves other paths unchanged", () => {
+			expect(expandProfileCwd("/tmp/~x", vars)).toBe("/tmp/~x");
+		});
+
+		it("returns undefined when a variable is unavailable", () => {
+			expect(expandProfileCwd(WORKSPACE_FOLDER, { userHome: "/h" })).toBe(
+				undefined,
+			);
+		});
+	});
+});
@@ -0,0 +1,74 @@
+/**
+ * Terminal profile parsing for the `bootty.profiles` setting
+ * Extracted for testability (no VS Code or Node dependencies)
+ */
+
+import type { TerminalProfile } from "./types/terminal";
+
+/** Read an optional string field, ignoring empty or non-string values */
+function readString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() !== "" ? value : undefined;
+}
+
+/**
+ * Parse profiles from settings (object keyed by profile name)
+ * Invalid entries and fields are dropped rather than failing the whole setting.
+ */
+export function parseProfiles(raw: unknown): TerminalProfile[] {
+	if (!raw || typeof raw !== "object" || Array.isArray(raw)) return [];
+
+	const profiles: TerminalProfile[] = [];
+	for (const [name, value] of Object.entries(raw)) {
+		// `null` disables a profile (e.g., one defined in user settings)
+		if (!value || typeof value !== "object" || Array.isArray(value)) continue;
+		const entry = value as Record<string, unknown>;
+
+		const profile: TerminalProfile = { name };
+		const path = readString(entry.path);
+		if (path) profile.path = path;
+		if (Array.isArray(entry.args)) {
+			profile.args = entry.args.filter(
+				(arg): arg is string => typeof arg === "string",
+			);
+		}
+		if (entry.env && typeof entry.env === "object") {
+			const env: Record<string, string> = {};
+			for (const [key, envValue] of Object.entries(entry.env)) {
+				if (typeof envValue === "string") env[key] = envValue;
+			}
+			profile.env = env;
+		}
+		const cwd = readString(entry.cwd);
+		if (cwd) profile.cwd = cwd;
+		const icon = readString(entry.icon);
+		if (icon) profile.icon = icon;
+		const color = readString(entry.color);
+		if (color) profile.color = color;
+
+		profiles.push(profile);
+	}
+	return profiles;
+}
+
+/**
+ * Expand `${workspaceFolder}`, `${userHome}` and a leading `~` in a profile cwd
+ * Returns undefined if a variable is used but not available (e.g., no workspace).
+ */
+export function expandProfileCwd(
+	cwd: string,
+	vars: { workspaceFolder?: string; userHome?: string },
+): string | undefined {
+	let missing = false;
+	const lookup = (name: keyof typeof vars): string => {
+		const value = vars[name];
+		if (!value) missing = true;
+		return value ?? "";
+	};
+	const expanded = cwd
+		.replace(/^~(?=$|[\\/])/, () => lookup("userHome"))
+		.replace(
+			/\$\{(workspaceFolder|userHome)\}/g,
+			(_, name: keyof typeof vars) => lookup(name),
+		);
+	return missing ? undefined : expanded;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+	buildSearchPattern,
+	findSearchMatches,
+	getMatchesInRows,
+	type SearchOptions,
+} from "./terminal-search";
+
+const PLAIN: SearchOptions = {
+	regex: false,
+	caseSensitive: false,
+	wholeWord: false,
+};
+
+function search(lines: string[], query: string, options = PLAIN) {
+	const pattern = buildSearchPattern(query, options);
+	return pattern ? findSearchMatches(lines, pattern) : [];
+}
+
+describe("terminal-search", () => {
+	describe("buildSearchPattern", () => {
+		it("returns undefined for empty queries and invalid regexes", () => {
+			expect(buildSearchPattern("", PLAIN)).toBeUndefined();
+			expect(
+				buildSearchPattern("(unclosed", { ...PLAIN, regex: true }),
+			).toBeUndefined();
+		});
+
+		it("treats plain queries literally", () => {
+			expect(search(["a.b axb"], "a.b")).toEqual([
+				{ row: 0, startCol: 0, endCol: 2 },
+			]);
+		});
+	});
+
+	describe("findSearchMatches", () => {
+		it("ignores case unless case-sensitive", () => {
+			const lines = ["Error error ERROR"];
+			expect(search(lines, "error")).toHaveLength(3);
+			expect(search(lines, "error", { ...PLAIN, caseSensitive: true })).toEqual(
+				[{ row: 0, startCol: 6, endCol: 10 }],
+			);
+		});
+
+		it("matches whole words only", () => {
+			const lines = ["test testing pytest test"];
+			expect(
+				search(lines, "test", { ...PLAIN, wholeWord: true }).map(
+					(match) => match.startCol,
+				),
+			).toEqual([0, 20]);
+		});
+
+		it("supports regular expressions across rows", () => {
+			const lines = ["foo 12", "bar", "baz 345"];
+			expect(search(lines, "\\d+", { ...PLAIN, regex: true })).toEqual([
+				{ row: 0, startCol: 4, endCol: 5 },
+				{ row: 2, startCol: 4, endCol: 6 },
+			]);
+		});
+
+		it("skips empty regex matches", () => {
+			expect(search(["abc"], "x*", { ...PLAIN, regex: true })).toEqual([]);
+		});
+	});
+
+	describe("getMatchesInRows", () => {
+		it("returns matches within the row range", () => {
+			const matches = [0, 2, 2, 5, 9].map((row) => ({
+				row,
+				startCol: 0,
+				endCol: 0,
+			}));
+			expect(getMatchesInRows(matches, 2, 6).map((m) => m.row)).toEqual([
+				2, 2, 5,
+			]);
+			expect(getMatchesInRows(matches, 10, 20)).toEqual([]);
+		});
+	});
+});
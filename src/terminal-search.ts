@@ -0,0 +1,82 @@
+/**
+ * Match finding for the terminal search overlay (webview/search-controller.ts)
+ * Extracted for testability (no DOM or Node dependencies)
+ */
+
+/** Search toggles (kept per terminal along with the query) */
+export interface SearchOptions {
+	regex: boolean;
+	caseSensitive: boolean;
+	wholeWord: boolean;
+}
+
+/** Search match location (absolute buffer row, inclusive columns) */
+export interface SearchMatch {
+	row: number;
+	startCol: number;
+	endCol: number;
+}
+
+/**
+ * Compile a query into a global RegExp
+ * Returns undefined for an empty query or an invalid regular expression.
+ */
+export function buildSearchPattern(
+	query: string,
+	options: SearchOptions,
+): RegExp | undefined {
+	if (!query) return undefined;
+
+	let source = options.regex
+		? query
+		: query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	if (options.wholeWord) {
+		// Lookarounds instead of \b so queries starting/ending with symbols work
+		source = `(?<![\\w])(?:${source})(?![\\w])`;
+	}
+	try {
+		return new RegExp(source, options.caseSensitive ? "g" : "gi");
+	} catch {
+		return undefined;
+	}
+}
+
+/** Find all matches of `pattern` in buffer lines (empty matches are skipped) */
+export function findSearchMatches(
+	lines: string[],
+	pattern: RegExp,
+): SearchMatch[] {
+	const matches: SearchMatch[] = [];
+	for (let row = 0; row < lines.length; row++) {
+		for (const match of lines[row].matchAll(pattern)) {
+			if (match[0].length === 0) continue;
+			matches.push({
+				row,
+				startCol: match.index,
+				endCol: match.index + match[0].length - 1,
+			});
+		}
+	}
+	return matches;
+}
+
+/** Get the matches on rows [startRow, endRow) from row-sorted matches */
+export function getMatchesInRows(
+	matches: SearchMatch[],
+	startRow: number,
+	endRow: number,
+): SearchMatch[] {
+	// Binary search for the first match at or after startRow
+	let low = 0;
+	let high = matches.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (matches[mid].row < startRow) low = mid + 1;
+		else high = mid;
+	}
+	const visible: SearchMatch[] = [];
+	for (let i = low; i < matches.length && matches[i].row < endRow; i++) {
+		visible.push(matches[i]);
+	}
+	return visible;
+}
@@ -10,20 +10,28 @@ export class TerminalTreeItem extends vscode.TreeItem {
 		public readonly terminalId: TerminalId,
 		public readonly label: string,
 		public readonly isActive: boolean,
+		icon = "terminal",
+		color?: string,
+		progress?: string,
 	) {
 		super(label, vscode.TreeItemCollapsibleState.None);
 
 		this.id = terminalId;
 		this.contextValue = "terminal";
-		this.iconPath = new vscode.ThemeIcon("terminal");
 
-		// Visual indicator for active terminal
-		if (isActive) {
-			this.iconPath = new vscode.ThemeIcon(
-				"terminal",
-				new vscode.ThemeColor("terminal.ansiGreen"),
-			);
-			this.description = "(active)";
+		// Profile color wins; otherwise green marks the active terminal
+		const iconColor = color ?? (isActive ? "terminal.ansiGreen" : undefined);
+		this.iconPath = new vscode.ThemeIcon(
+			icon,
+			iconColor ? new vscode.ThemeColor(iconColor) : undefined,
+		);
+
+		// Progress (OSC 9;4) and active terminal indicators
+		const description = [progress, isActive ? "(active)" : undefined]
+			.filter(Boolean)
+			.join(" ");
+		if (description) {
+			this.description = description;
 		}
 
 		// Command to activate terminal on click
@@ -40,6 +48,9 @@ export interface TerminalEntry {
 	id: TerminalId;
 	title: string;
 	active: boolean;
+	icon?: string; // Codicon ID (from profile)
+	color?: string; // Theme color ID (from profile)
+	progress?: string; // Progress bar text (from OSC 9;4)
 }
 
 /** Callback to handle terminal selection in the tree */
@@ -119,6 +130,15 @@ export class TerminalTreeDataProvider
 		}
 	}
 
+	/** Show (or clear, with undefined) a terminal's progress */
+	setProgress(terminalId: TerminalId, progress: string | undefined): void {
+		const terminal = this._terminals.find((t) => t.id === terminalId);
+		if (terminal && terminal.progress !== progress) {
+			terminal.progress = progress;
+			this._onDidChangeTreeData.fire(undefined);
+		}
+	}
+
 	/** Set the active terminal (updates visual indicator) */
 	setActiveTerminal(terminalId: TerminalId): void {
 		for (const terminal of this._terminals) {
@@ -138,6 +158,9 @@ export class TerminalTreeDataProvider
 			activeTerminal.id,
 			activeTerminal.title,
 			true,
+			activeTerminal.icon,
+			activeTerminal.color,
+			activeTerminal.progress,
 		);
 		// Reveal with select to update tree selection
 		this._treeView.reveal(item, { select: true, focus: false });
@@ -175,7 +198,15 @@ export class TerminalTreeDataProvider
 		// Root level: return all terminals
 		if (!element) {
 			const items = this._terminals.map(
-				(t) => new TerminalTreeItem(t.id, t.title, t.active),
+				(t) =>
+					new TerminalTreeItem(
+						t.id,
+						t.title,
+						t.active,
+						t.icon,
+						t.color,
+						t.progress,
+					),
 			);
 
 			// Event-driven reveal: VS Code called getChildren, tree is being refreshed
@@ -2,7 +2,9 @@ import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import {
 	createTerminalId,
 	DEFAULT_CONFIG,
+	parseOSC7Path,
 	resolveConfig,
+	shouldCloseOnExit,
 } from "./terminal-utils";
 
 describe("terminal-utils", () => {
@@ -22,6 +24,20 @@ describe("terminal-utils", () => {
 		});
 	});
 
+	describe("parseOSC7Path", () => {
+		it("decodes the path and ignores the hostname", () => {
+			expect(parseOSC7Path("file://host/home/me/my%20project")).toBe(
+				"/home/me/my project",
+			);
+			expect(parseOSC7Path("file:///tmp")).toBe("/tmp");
+		});
+
+		it("rejects other URLs and malformed encoding", () => {
+			expect(parseOSC7Path("https://example.com/")).toBeUndefined();
+			expect(parseOSC7Path("file:///bad%E0%A4%A")).toBeUndefined();
+		});
+	});
+
 	describe("DEFAULT_CONFIG", () => {
 		it("has expected default values", () => {
 			expect(DEFAULT_CONFIG.shell).toBeUndefined();
@@ -32,6 +48,15 @@ describe("terminal-utils", () => {
 		});
 	});
 
+	describe("shouldCloseOnExit", () => {
+		it("follows the bootty.onExit behavior and exit code", () => {
+			expect(shouldCloseOnExit("close", 1)).toBe(true);
+			expect(shouldCloseOnExit("keepOpen", 0)).toBe(false);
+			expect(shouldCloseOnExit("closeOnSuccess", 0)).toBe(true);
+			expect(shouldCloseOnExit("closeOnSuccess", 130)).toBe(false);
+		});
+	});
+
 	describe("resolveConfig", () => {
 		const originalEnv = process.env;
 
@@ -1,11 +1,26 @@
 import { randomUUID } from "node:crypto";
-import type { TerminalConfig, TerminalId } from "./types/terminal";
+import type {
+	ExitBehavior,
+	TerminalConfig,
+	TerminalId,
+} from "./types/terminal";
 
 /** Generate a new unique terminal ID (Node-only, never import in webview) */
 export function createTerminalId(): TerminalId {
 	return randomUUID() as TerminalId;
 }
 
+/** Directory from OSC 7 params (file://hostname/path), or undefined if invalid */
+export function parseOSC7Path(params: string): string | undefined {
+	const match = params.match(/^file:\/\/[^/]*(\/.*)$/);
+	if (!match) return undefined;
+	try {
+		return decodeURIComponent(match[1]);
+	} catch {
+		return undefined; // Malformed percent-encoding
+	}
+}
+
 /** Default terminal configuration */
 export const DEFAULT_CONFIG: TerminalConfig = {
 	shell: undefined, // Use platform default (detected at spawn)
@@ -33,7 +48,23 @@ export function resolveConfig(
 	};
 }
 
+/** Whether a terminal closes when its shell exits with `exitCode` */
+export function shouldCloseOnExit(
+	behavior: ExitBehavior,
+	exitCode: number,
+): boolean {
+	return (
+		behavior === "close" || (behavior === "closeOnSuccess" && exitCode === 0)
+	);
+}
+
 /** Buffer size limits */
-export const MAX_DATA_QUEUE_SIZE = 1000; // Max buffered chunks
 export const READY_TIMEOUT_MS = 10000; // 10s timeout for terminal-ready
+export const MAX_READY_RETRIES = 3; // Webview reloads before reporting a failed start
+export const MAX_WASM_LOAD_RECORDS = 20; // WASM load timings kept for diagnostics
 export const EXIT_CLOSE_DELAY_MS = 1500; // Delay before closing panel after PTY exit
+export const TERMINATED_EXIT_CODE = 129; // Exit code reported for a killed process (SIGHUP)
+export const SCROLLBACK_EXPORT_TIMEOUT_MS = 5000; // Wait for webview buffer export
+export const MAX_WORKSPACE_LINK_MATCHES = 20; // Candidates offered for ambiguous file links
+export const WORKSPACE_SEARCH_CACHE_MS = 60000; // Workspace search results kept for hovered links
+export const PROCESS_TITLE_INTERVAL_MS = 1000; // Min interval between foreground process checks
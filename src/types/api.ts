@@ -0,0 +1,62 @@
+/**
+ * Public API returned from BooTTY's `activate` (types-only, no runtime imports)
+ *
+ * Usage from another extension:
+ *   const api = await vscode.extensions.getExtension<BooTTYApi>("bigboss.bootty")?.activate();
+ *   const id = await api?.createTerminal({ cwd: "/tmp", location: "editor" });
+ */
+
+import type { Event, Pseudoterminal } from "vscode";
+import type { TerminalId, TerminalLocation } from "./terminal";
+
+/** Options for creating a terminal through the API */
+export interface CreateTerminalOptions {
+	title?: string; // Tab title (defaults to "Terminal N")
+	cwd?: string; // Starting directory (defaults to the first workspace folder)
+	shell?: string; // Shell executable (defaults to the user's shell)
+	args?: string[];
+	env?: Record<string, string>; // Merged over the inherited environment
+	location?: TerminalLocation; // Defaults to the bootty.defaultTerminalLocation setting
+	pty?: Pseudoterminal; // Render this in-process terminal instead of spawning a shell
+}
+
+/** Snapshot of a terminal's state */
+export interface TerminalInfo {
+	id: TerminalId;
+	title: string;
+	location: TerminalLocation;
+	cwd?: string; // Last cwd reported via OSC 7 (or the starting cwd)
+	exitCode?: number; // Set once the shell process has exited
+}
+
+/** Output written by a terminal's process */
+export interface TerminalDataEvent {
+	terminalId: TerminalId;
+	data: string; // Raw output, including escape sequences
+}
+
+/** A terminal was closed */
+export interface TerminalCloseEvent {
+	terminalId: TerminalId;
+	exitCode?: number; // Undefined when closed before the process exited (e.g., by the user)
+}
+
+/** API for other extensions to drive BooTTY terminals */
+export interface BooTTYApi {
+	/** Create a terminal; resolves to undefined if the shell failed to start */
+	createTerminal(
+		options?: CreateTerminalOptions,
+	): Promise<TerminalId | undefined>;
+	/** Send text to a terminal's process; returns false if the terminal doesn't exist */
+	sendText(id: TerminalId, text: string, addNewLine?: boolean): boolean;
+	/** Close a terminal and kill its process */
+	closeTerminal(id: TerminalId): void;
+	/** Current working directory (tracked via OSC 7) */
+	getCwd(id: TerminalId): string | undefined;
+	/** All open terminals, in creation order */
+	getTerminals(): TerminalInfo[];
+	/** Fires for every chunk of process output */
+	readonly onDidWriteData: Event<TerminalDataEvent>;
+	/** Fires when a terminal is closed, with the exit code if the process exited */
+	readonly onDidCloseTerminal: Event<TerminalCloseEvent>;
+}
@@ -1,14 +1,23 @@
-import type { TerminalId } from "./terminal";
+import type { ScrollbackExportFormat } from "../scrollback-export";
+import type { PaneLayout, SplitDirection, TerminalId } from "./terminal";
 
 /** Display settings for terminal */
 export interface DisplaySettings {
 	fontFamily?: string;
 	fontSize?: number;
+	scrollback?: number; // Lines kept; only applies to terminals created afterwards
 }
 
+/** Modifier held to activate links ("ctrlCmd" = Ctrl or Cmd, "none" = plain click) */
+export type LinkModifier = "ctrlCmd" | "alt" | "none";
+
+/** Level of a message in the BooTTY output channel */
+export type LogLevel = "trace" | "debug" | "info" | "warn" | "error";
+
 /** Runtime config for terminal behavior */
 export interface RuntimeConfig {
 	bellStyle: "visual" | "none";
+	linkModifier: LinkModifier;
 }
 
 /** Terminal theme colors */
@@ -40,7 +49,13 @@ export interface TerminalTheme {
 /** Extension -> Webview (editor terminals) */
 export type ExtensionMessage =
 	| { type: "pty-data"; terminalId: TerminalId; data: string }
-	| { type: "pty-exit"; terminalId: TerminalId; exitCode: number }
+	| {
+			type: "pty-exit";
+			terminalId: TerminalId;
+			exitCode: number;
+			restartable?: boolean; // Kept open: Enter restarts the shell
+	  }
+	| { type: "pty-restart"; terminalId: TerminalId } // Shell respawned in the same tab
 	| { type: "resize"; terminalId: TerminalId; cols: number; rows: number }
 	| {
 			type: "update-settings";
@@ -55,7 +70,15 @@ export type ExtensionMessage =
 			results: Array<{ path: string; exists: boolean }>;
 	  }
 	| { type: "update-config"; config: RuntimeConfig }
-	| { type: "show-search" };
+	| { type: "show-search" }
+	| { type: "scroll-to-command"; direction: "previous" | "next" }
+	| {
+			type: "export-scrollback";
+			terminalId: TerminalId;
+			requestId: number;
+			format: ScrollbackExportFormat;
+			title: string; // HTML document title
+	  };
 
 /** Extension -> Panel Webview (panel-specific messages) */
 export type PanelExtensionMessage =
@@ -65,10 +88,28 @@ export type PanelExtensionMessage =
 			terminalId: TerminalId;
 			title: string;
 			makeActive: boolean;
+			restoreId?: TerminalId; // Previous session ID whose scrollback to restore
 	  }
 	| { type: "remove-tab"; terminalId: TerminalId }
-	| { type: "rename-tab"; terminalId: TerminalId; title: string }
+	| {
+			type: "rename-tab";
+			terminalId: TerminalId;
+			title: string;
+			custom?: boolean; // Set by the user (kept across reloads)
+	  }
+	| {
+			type: "add-pane";
+			terminalId: TerminalId;
+			title: string;
+			targetId: TerminalId; // Existing pane being split
+			direction: SplitDirection;
+			ratio: number;
+			makeActive: boolean;
+			restoreId?: TerminalId; // Previous session ID whose scrollback to restore
+	  }
 	| { type: "activate-tab"; terminalId: TerminalId }
+	| { type: "split-active-pane"; direction: SplitDirection }
+	| { type: "focus-adjacent-pane"; offset: number }
 	| { type: "focus-terminal" };
 
 /** Webview -> Extension (editor terminals) */
@@ -100,7 +141,21 @@ export type WebviewMessage =
 			batchId: number;
 			paths: string[];
 	  }
-	| { type: "terminal-bell"; terminalId: TerminalId };
+	| { type: "terminal-bell"; terminalId: TerminalId }
+	| { type: "pty-data-ack"; terminalId: TerminalId; charCount: number } // Output written (flow control)
+	| { type: "log"; level: LogLevel; message: string } // To the BooTTY output channel
+	| {
+			type: "wasm-loaded";
+			webview: "editor" | "panel";
+			loadTimeMs: number;
+			attempts: number;
+	  }
+	| {
+			type: "scrollback-exported";
+			terminalId: TerminalId;
+			requestId: number;
+			content: string;
+	  };
 
 /** Panel Webview -> Extension (panel-specific messages) */
 export type PanelWebviewMessage =
@@ -114,7 +169,21 @@ export type PanelWebviewMessage =
 	  } // Tab switch with resize
 	| { type: "tab-close-requested"; terminalId: TerminalId }
 	| { type: "new-tab-requested" }
-	| { type: "new-tab-requested-with-title"; title: string; makeActive: boolean } // Restore with saved metadata
+	| {
+			type: "new-tab-requested-with-title";
+			title: string;
+			makeActive: boolean;
+			restoreId?: TerminalId; // ID from previous session (keys saved scrollback)
+			layout?: PaneLayout; // Saved split layout (IDs from previous session)
+			paneTitles?: Record<string, string>; // Saved pane titles keyed by previous ID
+			cwds?: Record<string, string>; // Saved cwds keyed by previous ID
+			customTitles?: TerminalId[]; // Previous IDs of tabs the user renamed
+	  } // Restore with saved metadata
+	| {
+			type: "split-requested";
+			terminalId: TerminalId;
+			direction: SplitDirection;
+	  } // Split an existing pane
 	| { type: "tab-renamed"; terminalId: TerminalId; title: string } // User edited title
 	| { type: "toggle-panel-requested" } // Ctrl+` pressed in terminal
 	| { type: "next-tab-requested" } // Cmd+Shift+] pressed
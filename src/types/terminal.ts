@@ -1,16 +1,43 @@
+import type { TerminalProgress } from "../notifications";
+import type { OscParser } from "../osc-parser";
+import type {
+	FlowController,
+	OutputBatcher,
+	OutputQueue,
+} from "../output-flow";
+import type { CommandTracker } from "../shell-integration";
+
 /** Branded terminal ID for type safety (types-only, no runtime imports) */
 export type TerminalId = string & { readonly __brand: "TerminalId" };
 
 /** Terminal location - panel (bottom) or editor (tab) */
 export type TerminalLocation = "panel" | "editor";
 
+/** What happens to a terminal when its shell exits (bootty.onExit) */
+export type ExitBehavior = "close" | "keepOpen" | "closeOnSuccess";
+
 export interface TerminalConfig {
 	shell?: string;
+	args?: string[]; // Extra shell arguments (from profile)
 	cwd?: string;
 	env?: Record<string, string>;
 	cols?: number; // Initial cols from FitAddon measurement
 	rows?: number; // Initial rows from FitAddon measurement
 	location?: TerminalLocation; // Where to open the terminal
+	icon?: string; // Codicon ID shown in the terminal list (from profile)
+	color?: string; // Theme color ID for the icon (from profile)
+	closeOnExit?: boolean; // false keeps the tab without offering a restart (task terminals are reused)
+}
+
+/** Terminal profile from the `bootty.profiles` setting */
+export interface TerminalProfile {
+	name: string; // Setting key, shown in the profile picker
+	path?: string; // Shell executable (default shell if omitted)
+	args?: string[];
+	env?: Record<string, string>; // Overrides merged over the inherited environment
+	cwd?: string; // Supports ${workspaceFolder}, ${userHome} and ~
+	icon?: string; // Codicon ID, e.g. "terminal-bash"
+	color?: string; // Theme color ID, e.g. "terminal.ansiCyan"
 }
 
 /** Base fields shared by all terminal instances */
@@ -19,9 +46,22 @@ interface TerminalInstanceBase {
 	config: Partial<TerminalConfig>; // Partial: defaults applied at PTY spawn
 	ready: boolean; // Set true after terminal-ready received
 	readyTimeout?: ReturnType<typeof setTimeout>; // Timeout for ready signal
-	dataQueue: string[]; // Buffer PTY data until ready (capped)
+	loadAttempts?: number; // Webview reloads after missed ready signals
+	dataQueue: OutputQueue; // Holds PTY data until ready (bounded by bytes)
+	output: OutputBatcher; // Batches PTY data for the webview once ready
+	flow: FlowController; // Pauses the PTY while the webview is behind
 	currentCwd?: string; // Current working directory (tracked via OSC 7)
+	commandTracker: CommandTracker; // Commands tracked via shell integration (OSC 133)
+	oscParser: OscParser; // OSC sequences (cwd, titles, notifications) across chunks
+	progress?: TerminalProgress; // Last OSC 9;4 progress report
+	exitCode?: number; // Set when the PTY process exits
+	restartOnEnter?: boolean; // Exited shell kept open (bootty.onExit); Enter respawns it
+	dimensions?: { cols: number; rows: number }; // Last size reported by the webview
 	title: string; // User-editable tab title
+	customTitle?: boolean; // Title set by the user (wins over the tabTitle template)
+	sequenceTitle?: string; // Last title set via OSC 0/2
+	processName?: string; // Last foreground process seen (for ${process} titles)
+	processCheckedAt?: number; // When the foreground process was last checked
 	index?: number; // Auto-assigned index for "Terminal N" naming (reused on close)
 }
 
@@ -44,9 +84,28 @@ export interface PanelTerminalInstance extends TerminalInstanceBase {
  */
 export type TerminalInstance = EditorTerminalInstance | PanelTerminalInstance;
 
+/** Split direction: horizontal places panes side by side, vertical stacks them */
+export type SplitDirection = "horizontal" | "vertical";
+
+/**
+ * Split layout tree for a panel tab.
+ * Leaves are terminals; split nodes divide their area between two children.
+ * `ratio` is the fraction of the area given to `first` (0..1).
+ */
+export type PaneLayout =
+	| { type: "pane"; id: TerminalId }
+	| {
+			type: "split";
+			direction: SplitDirection;
+			ratio: number;
+			first: PaneLayout;
+			second: PaneLayout;
+	  };
+
 /** Panel tab metadata for webview state */
 export interface PanelTab {
 	id: TerminalId;
 	title: string;
 	active: boolean;
+	customTitle?: boolean; // Title set by the user
 }
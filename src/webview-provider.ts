@@ -1,12 +1,17 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as vscode from "vscode";
+import {
+	createVSCodeConfigGetter,
+	resolveDisplaySettings,
+} from "./settings-resolver";
 import type { TerminalId } from "./types/terminal";
 
 function createWebviewHtml(
 	panel: vscode.WebviewPanel,
 	extensionPath: string,
 	terminalId: TerminalId,
+	loadAttempt = 0,
 ): string {
 	const ghosttyWebPath = path.join(
 		extensionPath,
@@ -38,8 +43,17 @@ function createWebviewHtml(
 	);
 	let html = fs.readFileSync(templatePath, "utf8");
 
+	// Scrollback is a WASM config value, so it must be known at creation
+	const { scrollback } = resolveDisplaySettings(
+		createVSCodeConfigGetter((section) =>
+			vscode.workspace.getConfiguration(section),
+		),
+	);
+
 	html = html
 		.replace(/\{\{cspSource\}\}/g, panel.webview.cspSource)
+		.replace(/\{\{scrollback\}\}/g, String(scrollback))
+		.replace(/\{\{loadAttempt\}\}/g, String(loadAttempt)) // Makes reloads differ
 		.replace(/\{\{terminalId\}\}/g, terminalId) // Critical: inject terminal ID
 		.replace(/\{\{wasmUri\}\}/g, wasmUri.toString())
 		.replace(/\{\{ghosttyWebJsUri\}\}/g, ghosttyWebJsUri.toString())
@@ -82,3 +96,18 @@ export function createWebviewPanel(
 
 	return panel;
 }
+
+/** Reload an editor terminal's webview (e.g., after the WASM failed to load) */
+export function reloadWebviewPanel(
+	panel: vscode.WebviewPanel,
+	extensionUri: vscode.Uri,
+	terminalId: TerminalId,
+	loadAttempt: number,
+): void {
+	panel.webview.html = createWebviewHtml(
+		panel,
+		extensionUri.fsPath,
+		terminalId,
+		loadAttempt,
+	);
+}
@@ -4,13 +4,16 @@
  */
 
 import { resolvePath } from "../file-cache";
-
-// Pre-compiled file path patterns for link detection performance
+import {
+	DEFAULT_LINK_MATCHERS,
+	findFileLinks,
+	getLinkRange,
+	type LinkMatcher,
+} from "../link-matchers";
+
+// Pre-compiled file path pattern for clicks on links found by ghostty-web's URL detector
 // Matches: Unix paths (/path/file.ts, ./rel.ts), Windows (C:\file.ts, C:/file.ts)
 // Optional :line:col or (line,col) suffix
-const FILE_PATH_PATTERN_GLOBAL =
-	/(?:^|[\s'"(])((?:[a-zA-Z]:)?(?:\.{0,2}[\\/])?[\w.\\/-]+\.[a-zA-Z0-9]+)(?:[:(](\d+)(?:[,:](\d+))?[\])]?)?/g;
-
 export const FILE_PATH_PATTERN_SINGLE =
 	/^((?:[a-zA-Z]:)?(?:\.{0,2}[\\/])?[\w.\\/-]+\.[a-zA-Z0-9]+)(?:[:(](\d+)(?:[,:](\d+))?[\])]?)?$/;
 
@@ -23,16 +26,6 @@ interface TerminalBuffer {
 	};
 }
 
-/** File link match with position information */
-interface FileLinkMatch {
-	text: string;
-	path: string;
-	line?: number;
-	column?: number;
-	startX: number;
-	endX: number;
-}
-
 /** Link range for terminal link provider */
 interface LinkRange {
 	start: { x: number; y: number };
@@ -54,6 +47,10 @@ export interface FileLinkProviderOptions {
 	checkFileExists: (path: string) => Promise<boolean>;
 	/** Handle file link click */
 	onFileClick: (path: string, line?: number, column?: number) => void;
+	/** Check if a click opens the link (defaults to Ctrl/Cmd held) */
+	isActivation?: (event: MouseEvent) => boolean;
+	/** Output formats to detect (defaults to DEFAULT_LINK_MATCHERS) */
+	matchers?: LinkMatcher[];
 }
 
 /**
@@ -70,7 +67,13 @@ export function createFileLinkProvider(
 		callback: (links: TerminalLink[] | undefined) => void,
 	) => void;
 } {
-	const { getCwd, checkFileExists, onFileClick } = options;
+	const {
+		getCwd,
+		checkFileExists,
+		onFileClick,
+		isActivation = (event) => event.ctrlKey || event.metaKey,
+		matchers = DEFAULT_LINK_MATCHERS,
+	} = options;
 
 	return {
 		provideLinks(
@@ -93,54 +96,7 @@ export function createFileLinkProvider(
 				return;
 			}
 
-			// Early-out: all file paths have extensions (contain '.')
-			if (!lineText.includes(".")) {
-				callback(undefined);
-				return;
-			}
-
-			// Reset lastIndex for global regex re-use
-			FILE_PATH_PATTERN_GLOBAL.lastIndex = 0;
-
-			const matches: FileLinkMatch[] = [];
-
-			let match;
-			while ((match = FILE_PATH_PATTERN_GLOBAL.exec(lineText)) !== null) {
-				const fullMatch = match[0];
-				const path = match[1];
-				const lineNum = match[2] ? parseInt(match[2], 10) : undefined;
-				const colNum = match[3] ? parseInt(match[3], 10) : undefined;
-
-				// Calculate start position (skip leading whitespace/quote)
-				let startX = match.index;
-				// Skip prefix character if not start of path
-				const firstChar = fullMatch[0];
-				if (
-					firstChar !== "." &&
-					firstChar !== "/" &&
-					firstChar !== "\\" &&
-					!/[a-zA-Z]/.test(firstChar)
-				) {
-					startX += 1; // Skip the prefix character
-				}
-
-				matches.push({
-					text:
-						path +
-						(lineNum ? `:${lineNum}` : "") +
-						(colNum ? `:${colNum}` : ""),
-					path,
-					line: lineNum,
-					column: colNum,
-					startX,
-					endX:
-						startX +
-						path.length +
-						(lineNum ? String(lineNum).length + 1 : 0) +
-						(colNum ? String(colNum).length + 1 : 0),
-				});
-			}
-
+			const matches = findFileLinks(lineText, matchers);
 			if (matches.length === 0) {
 				callback(undefined);
 				return;
@@ -165,13 +121,10 @@ export function createFileLinkProvider(
 						const m = matches[i];
 						links.push({
 							text: m.text,
-							range: {
-								start: { x: m.startX, y },
-								end: { x: m.endX, y },
-							},
+							range: getLinkRange(m, y),
 							activate: (event: MouseEvent) => {
-								// Only open on Ctrl/Cmd+Click (standard terminal behavior)
-								if (event.ctrlKey || event.metaKey) {
+								// Only open with the activation modifier (Ctrl/Cmd+Click by default)
+								if (isActivation(event)) {
 									onFileClick(m.path, m.line, m.column);
 								}
 							},
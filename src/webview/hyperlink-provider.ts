@@ -0,0 +1,166 @@
+/**
+ * OSC 8 hyperlink provider for terminal webview
+ * Writes output without its OSC 8 sequences, recording the cells each link
+ * is printed in, and offers the links whose text is still in those cells
+ */
+
+import {
+	type CellPosition,
+	createHyperlinkFilter,
+	createHyperlinkRegistry,
+	type RecordedHyperlink,
+} from "../hyperlinks";
+
+/** Terminal interface for the hyperlink provider */
+export interface HyperlinkTerminal {
+	cols: number;
+	buffer?: {
+		active?: {
+			type?: "normal" | "alternate";
+			cursorX: number;
+			cursorY: number;
+			getLine(y: number):
+				| {
+						length: number;
+						getCell(x: number): { getChars(): string } | undefined;
+				  }
+				| undefined;
+		};
+	};
+	getScrollbackLength?(): number;
+}
+
+/** Terminal link for link provider callback */
+interface TerminalLink {
+	text: string;
+	range: {
+		start: { x: number; y: number };
+		end: { x: number; y: number };
+	};
+	activate: (event: MouseEvent) => void;
+	hover: (isHovered: boolean) => void;
+}
+
+/** Options for creating the hyperlink provider */
+export interface HyperlinkProviderOptions {
+	/** Write output to the terminal (parsed synchronously) */
+	write: (data: string) => void;
+	/** Check if a click opens the link */
+	isActivation: (event: MouseEvent) => boolean;
+	/** Open a link's URI */
+	onActivate: (uri: string) => void;
+	/** Show (or hide, with undefined) the hovered link's URI */
+	onHover: (uri: string | undefined) => void;
+}
+
+/** OSC 8 hyperlink provider for one terminal */
+export interface HyperlinkProvider {
+	/** Write PTY output, recording where its links are printed */
+	write(data: string): void;
+	provideLinks(
+		y: number,
+		callback: (links: TerminalLink[] | undefined) => void,
+	): void;
+}
+
+/** Text of a link's cells, without whitespace (tabs and wrapping leave gaps) */
+function readLinkText(
+	buffer: NonNullable<NonNullable<HyperlinkTerminal["buffer"]>["active"]>,
+	link: RecordedHyperlink,
+): string {
+	let text = "";
+	for (let y = link.start.y; y <= link.end.y; y++) {
+		const line = buffer.getLine(y);
+		if (!line) return "";
+		const end = y === link.end.y ? link.end.x : line.length - 1;
+		for (let x = y === link.start.y ? link.start.x : 0; x <= end; x++) {
+			text += line.getCell(x)?.getChars() ?? "";
+		}
+	}
+	return text.replace(/\s/g, "");
+}
+
+/**
+ * Create an OSC 8 hyperlink provider for the terminal
+ * Links are keyed by position, so the same text linked to different URIs
+ * opens the right one; stale positions (cleared or reflowed screen) are
+ * ignored because their cells no longer hold the link's text.
+ * @param term - ghostty-web Terminal instance
+ * @param options - Provider options
+ */
+export function createHyperlinkProvider(
+	term: HyperlinkTerminal,
+	options: HyperlinkProviderOptions,
+): HyperlinkProvider {
+	const { write, isActivation, onActivate, onHover } = options;
+	const filter = createHyperlinkFilter();
+	const registry = createHyperlinkRegistry();
+	let lastText = ""; // Most recent text written
+
+	function getCursor(): CellPosition {
+		const buffer = term.buffer?.active;
+		return {
+			x: buffer?.cursorX ?? 0,
+			y: (term.getScrollbackLength?.() ?? 0) + (buffer?.cursorY ?? 0),
+		};
+	}
+
+	/** Last cell written (the cursor stays on the last column after printing there) */
+	function getLastWritten(): CellPosition {
+		const cursor = getCursor();
+		const lastChar = lastText.slice(-1);
+		const atEdge =
+			cursor.x === term.cols - 1 &&
+			term.buffer?.active?.getLine(cursor.y)?.getCell(cursor.x)?.getChars() ===
+				lastChar;
+		if (atEdge || cursor.x > 0) {
+			return { x: atEdge ? cursor.x : cursor.x - 1, y: cursor.y };
+		}
+		return { x: term.cols - 1, y: cursor.y - 1 };
+	}
+
+	return {
+		write(data) {
+			for (const segment of filter.filter(data)) {
+				write(segment.text);
+				registry.print(segment.text);
+				if (segment.text) lastText = segment.text;
+				if (!segment.link) continue;
+				// Writes are parsed synchronously, so the cursor is where the link starts or ends
+				registry.close(getLastWritten());
+				if (segment.link.uri) {
+					registry.open(
+						segment.link.uri,
+						getCursor(),
+						term.buffer?.active?.type ?? "normal",
+					);
+				}
+			}
+		},
+
+		provideLinks(y, callback) {
+			const buffer = term.buffer?.active;
+			if (!buffer) {
+				callback(undefined);
+				return;
+			}
+
+			const links: TerminalLink[] = [];
+			for (const link of registry.getLinksOnRow(y, buffer.type ?? "normal")) {
+				if (readLinkText(buffer, link) !== link.text.replace(/\s/g, "")) {
+					continue;
+				}
+				const { uri } = link;
+				links.push({
+					text: uri,
+					range: { start: link.start, end: link.end },
+					activate: (event) => {
+						if (isActivation(event)) onActivate(uri);
+					},
+					hover: (isHovered) => onHover(isHovered ? uri : undefined),
+				});
+			}
+			callback(links.length > 0 ? links : undefined);
+		},
+	};
+}
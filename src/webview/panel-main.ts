@@ -4,29 +4,32 @@
  */
 
 import {
-	createFileCache,
-	isWindowsPlatform,
-	quoteShellPath,
-	resolvePath as resolvePathUtil,
-} from "../file-cache";
-import {
-	getKeyHandlerResult,
 	isMacPlatform,
 	isNextTabShortcut,
 	isPrevTabShortcut,
-	isSearchShortcut,
 } from "../keybinding-utils";
+import {
+	clampSplitRatio,
+	containsPane,
+	createPaneLayout,
+	getAdjacentPaneId,
+	getPaneIds,
+	removePane,
+	splitPane,
+} from "../split-layout";
 import type {
 	PanelExtensionMessage,
 	PanelWebviewMessage,
 	RuntimeConfig,
-	TerminalTheme,
 } from "../types/messages";
-import type { TerminalId } from "../types/terminal";
+import type { PaneLayout, TerminalId } from "../types/terminal";
 import {
-	createSearchController,
-	type SearchController,
-} from "./search-controller";
+	createFileExistsChecker,
+	createTerminalView,
+	loadGhostty,
+	logWebviewError,
+	type TerminalView,
+} from "./terminal-view";
 
 // Declare VS Code API (provided by webview host)
 declare function acquireVsCodeApi(): {
@@ -40,221 +43,80 @@ const vscode = acquireVsCodeApi();
 
 // Webview state persistence interface
 interface WebviewState {
-	tabs?: Array<{ id: TerminalId; title: string; active: boolean }>;
+	tabs?: Array<{
+		id: TerminalId;
+		title: string;
+		active: boolean;
+		customTitle?: boolean;
+	}>;
 	currentCwd?: Record<TerminalId, string>;
+	layouts?: PaneLayout[]; // Split layout per tab (panes reference tab IDs above)
+	scrollback?: Record<TerminalId, string[]>; // Plain-text scrollback per terminal
 }
 
 // Terminal instance managed within the panel
 interface PanelTerminal {
 	id: TerminalId;
 	title: string;
-	term: unknown; // ghostty-web Terminal instance
-	fitAddon: unknown; // FitAddon instance
-	container: HTMLElement;
-	currentCwd?: string;
-	searchController: SearchController;
+	customTitle?: boolean; // Named by the user (restored as-is after reload)
+	view: TerminalView;
+	container: HTMLElement; // Pane wrapper (the view is opened in a child)
+}
+
+// A tab in the panel: one or more terminals arranged in a split layout
+interface TabGroup {
+	element: HTMLElement;
+	layout: PaneLayout;
 }
 
 // Wrap in async IIFE for top-level await
 (async () => {
 	const WASM_URL = document.body.dataset.wasmUrl || "";
+	// Scrollback for new terminals (ghostty-web reads it only at creation);
+	// injected into the HTML, then kept current by update-settings
+	const injectedScrollback = Number.parseInt(
+		document.body.dataset.scrollback ?? "",
+		10,
+	);
+	let scrollbackLimit = Number.isNaN(injectedScrollback)
+		? undefined
+		: injectedScrollback;
 
 	// Restore persisted state
 	const savedState = vscode.getState() as WebviewState | undefined;
 
 	// Terminal instances
 	const terminals = new Map<TerminalId, PanelTerminal>();
+	// Tabs in display order; each owns the panes in its layout
+	const tabGroups: TabGroup[] = [];
+	// Focused pane (its tab group is the visible one)
 	let activeTerminalId: TerminalId | null = null;
 
 	// Runtime config (updated via update-config message)
-	let runtimeConfig: RuntimeConfig = { bellStyle: "visual" };
-
-	// File existence cache
-	const fileCache = createFileCache(5000, 100);
-
-	// Batching state for file existence checks (reduced round-trips)
-	// Each batch gets a unique ID; callbacks are tracked per-batch to avoid cross-batch interference
-	let nextBatchId = 0;
-	// Map: batchId -> Map<path, callbacks[]>
-	const pendingBatches = new Map<
-		number,
-		Map<string, Array<(exists: boolean) => void>>
-	>();
-	// Current batch being accumulated (not yet sent)
-	let currentBatchCallbacks = new Map<
-		string,
-		Array<(exists: boolean) => void>
-	>();
-	let currentBatchId = nextBatchId++;
-	let batchDebounceTimer: ReturnType<typeof setTimeout> | null = null;
-	const BATCH_DEBOUNCE_MS = 50;
+	let runtimeConfig: RuntimeConfig = {
+		bellStyle: "visual",
+		linkModifier: "ctrlCmd",
+	};
 
 	// Platform detection
 	const IS_MAC = isMacPlatform(navigator);
-	const IS_WINDOWS = isWindowsPlatform(navigator);
-
-	// Initialize ghostty-web wasm (matching probe pattern)
-	// eslint-disable-next-line @typescript-eslint/no-explicit-any
-	const GhosttyModule =
-		(window as any).GhosttyWeb || (window as any).ghosttyWeb;
-
-	if (!GhosttyModule) {
-		throw new Error("ghostty-web failed to load: GhosttyWeb global not found.");
-	}
-
-	const Ghostty = GhosttyModule.Ghostty || GhosttyModule.default?.Ghostty;
-	let ghosttyInstance: unknown = null;
-
-	if (Ghostty && typeof Ghostty.load === "function") {
-		ghosttyInstance = await Ghostty.load(WASM_URL);
-	} else if (GhosttyModule.init && typeof GhosttyModule.init === "function") {
-		await GhosttyModule.init();
-	} else if (GhosttyModule.default?.init) {
-		await GhosttyModule.default.init();
-	}
-
-	const Terminal = GhosttyModule.Terminal || GhosttyModule.default?.Terminal;
-	const FitAddon = GhosttyModule.FitAddon || GhosttyModule.default?.FitAddon;
-
-	if (!Terminal) throw new Error("ghostty-web Terminal not found");
-	if (!FitAddon) throw new Error("ghostty-web FitAddon not found");
 
-	// Pre-compiled file path pattern for link detection performance
-	const FILE_PATH_PATTERN_SINGLE =
-		/^((?:[a-zA-Z]:)?(?:\.{0,2}[\\/])?[\w.\\/-]+\.[a-zA-Z0-9]+)(?:[:(](\d+)(?:[,:](\d+))?[\])]?)?$/;
+	const postMessage = (message: PanelWebviewMessage) =>
+		vscode.postMessage(message);
+	const runtime = await loadGhostty(WASM_URL, "panel", postMessage);
+	// File existence checks are shared by all terminals (one cache, one batch)
+	const fileChecker = createFileExistsChecker(postMessage);
 
 	// DOM elements
 	const terminalsContainer = document.getElementById("terminals-container")!;
 
-	// Read theme colors from VS Code CSS variables
-	function getVSCodeThemeColors(): TerminalTheme {
-		const style = getComputedStyle(document.documentElement);
-		const get = (name: string, ...fallbacks: string[]): string | undefined => {
-			let value = style.getPropertyValue(name).trim();
-			if (!value) {
-				for (const fallback of fallbacks) {
-					value = style.getPropertyValue(fallback).trim();
-					if (value) break;
-				}
-			}
-			return value || undefined;
-		};
-
-		return {
-			foreground: get(
-				"--vscode-editor-foreground",
-				"--vscode-foreground",
-				"--vscode-terminal-foreground",
-			),
-			background: get(
-				"--vscode-editor-background",
-				"--vscode-panel-background",
-				"--vscode-terminal-background",
-			),
-			cursor: get(
-				"--vscode-editorCursor-foreground",
-				"--vscode-terminalCursor-foreground",
-			),
-			cursorAccent: get(
-				"--vscode-editorCursor-background",
-				"--vscode-editor-background",
-			),
-			selectionBackground: get(
-				"--vscode-editor-selectionBackground",
-				"--vscode-terminal-selectionBackground",
-			),
-			selectionForeground: get(
-				"--vscode-editor-selectionForeground",
-				"--vscode-terminal-selectionForeground",
-			),
-			black: get("--vscode-terminal-ansiBlack"),
-			red: get("--vscode-terminal-ansiRed"),
-			green: get("--vscode-terminal-ansiGreen"),
-			yellow: get("--vscode-terminal-ansiYellow"),
-			blue: get("--vscode-terminal-ansiBlue"),
-			magenta: get("--vscode-terminal-ansiMagenta"),
-			cyan: get("--vscode-terminal-ansiCyan"),
-			white: get("--vscode-terminal-ansiWhite"),
-			brightBlack: get("--vscode-terminal-ansiBrightBlack"),
-			brightRed: get("--vscode-terminal-ansiBrightRed"),
-			brightGreen: get("--vscode-terminal-ansiBrightGreen"),
-			brightYellow: get("--vscode-terminal-ansiBrightYellow"),
-			brightBlue: get("--vscode-terminal-ansiBrightBlue"),
-			brightMagenta: get("--vscode-terminal-ansiBrightMagenta"),
-			brightCyan: get("--vscode-terminal-ansiBrightCyan"),
-			brightWhite: get("--vscode-terminal-ansiBrightWhite"),
-		};
-	}
-
-	// Flush batch of file existence checks to extension
-	function flushBatchFileChecks(terminalId: TerminalId): void {
-		if (currentBatchCallbacks.size === 0) return;
-
-		// Move current batch to pending and start a new batch
-		const batchId = currentBatchId;
-		const batchCallbacks = currentBatchCallbacks;
-		pendingBatches.set(batchId, batchCallbacks);
-
-		// Start fresh batch for new requests
-		currentBatchId = nextBatchId++;
-		currentBatchCallbacks = new Map();
-
-		const paths = Array.from(batchCallbacks.keys());
-		vscode.postMessage({
-			type: "batch-check-file-exists",
-			terminalId,
-			batchId,
-			paths,
-		});
-
-		// Set timeout for this specific batch - resolve as false if no response
-		setTimeout(() => {
-			const batch = pendingBatches.get(batchId);
-			if (batch) {
-				pendingBatches.delete(batchId);
-				for (const [path, callbacks] of batch) {
-					fileCache.set(path, false);
-					for (const cb of callbacks) {
-						cb(false);
-					}
-				}
-			}
-		}, 2000);
-	}
-
-	// Check if a file exists via extension (with caching and batching)
-	function _checkFileExists(
-		path: string,
-		terminalId: TerminalId,
-	): Promise<boolean> {
-		const cached = fileCache.get(path);
-		if (cached !== undefined) {
-			return Promise.resolve(cached);
-		}
-
-		return new Promise((resolve) => {
-			// Add callback to current batch
-			const existing = currentBatchCallbacks.get(path);
-			if (existing) {
-				// Path already in this batch, just add callback
-				existing.push(resolve);
-			} else {
-				currentBatchCallbacks.set(path, [resolve]);
-			}
-
-			// Reset debounce timer
-			if (batchDebounceTimer) {
-				clearTimeout(batchDebounceTimer);
-			}
-			batchDebounceTimer = setTimeout(() => {
-				batchDebounceTimer = null;
-				flushBatchFileChecks(terminalId);
-			}, BATCH_DEBOUNCE_MS);
-		});
-	}
-
 	// Create a terminal instance
-	function createTerminal(id: TerminalId, title: string): PanelTerminal {
+	// restoreId: ID from the previous session whose saved cwd to reuse
+	function createTerminal(
+		id: TerminalId,
+		title: string,
+		restoreId?: TerminalId,
+	): PanelTerminal {
 		// Create container
 		const wrapper = document.createElement("div");
 		wrapper.className = "terminal-wrapper";
@@ -263,236 +125,196 @@ interface PanelTerminal {
 		const container = document.createElement("div");
 		container.className = "terminal-container";
 		wrapper.appendChild(container);
-		terminalsContainer.appendChild(wrapper);
-
-		// Create terminal (using any for ghostty-web Terminal options)
-		const termOptions: any = {
-			cols: 80,
-			rows: 24,
-			onLinkClick: (url: string, event: MouseEvent) => {
-				if (event.ctrlKey || event.metaKey) {
-					// Use pre-compiled pattern for performance
-					const fileMatch = url.match(FILE_PATH_PATTERN_SINGLE);
-					if (fileMatch) {
-						const [, filePath, lineStr, colStr] = fileMatch;
-						const terminal = terminals.get(id);
-						const absolutePath = terminal?.currentCwd
-							? resolvePathUtil(filePath, terminal.currentCwd)
-							: filePath;
-						vscode.postMessage({
-							type: "open-file",
-							terminalId: id,
-							path: absolutePath,
-							line: lineStr ? Number.parseInt(lineStr, 10) : undefined,
-							column: colStr ? Number.parseInt(colStr, 10) : undefined,
-						});
-						return true;
-					}
-					vscode.postMessage({ type: "open-url", terminalId: id, url });
+		// Track pane focus so split commands act on the pane the user clicked
+		wrapper.addEventListener("mousedown", () => {
+			if (activeTerminalId !== id) {
+				activateTerminal(id);
+			}
+		});
+
+		const view = createTerminalView({
+			id,
+			runtime,
+			container,
+			postMessage,
+			fileChecker,
+			getRuntimeConfig: () => runtimeConfig,
+			scrollback: scrollbackLimit,
+			cwd: restoreId ? savedState?.currentCwd?.[restoreId] : undefined,
+			// Tab switching shortcuts (the terminal captures keyboard events)
+			onKey: (event) => {
+				if (isNextTabShortcut(event, IS_MAC)) {
+					vscode.postMessage({ type: "next-tab-requested" });
+					return true;
+				}
+				if (isPrevTabShortcut(event, IS_MAC)) {
+					vscode.postMessage({ type: "prev-tab-requested" });
 					return true;
 				}
 				return false;
 			},
+			// Hidden tabs have no size; they are fitted when activated
+			isVisible: () => isTerminalVisible(id),
+		});
+
+		const panelTerminal: PanelTerminal = {
+			id,
+			title,
+			view,
+			container: wrapper,
 		};
-		if (ghosttyInstance) {
-			termOptions.ghostty = ghosttyInstance;
-		}
-		const term = new Terminal(termOptions);
+		terminals.set(id, panelTerminal);
 
-		const fitAddon = new FitAddon();
-		term.loadAddon(fitAddon);
-		term.open(container);
+		return panelTerminal;
+	}
 
-		// Apply theme
-		term.options.theme = getVSCodeThemeColors();
+	// Find the tab group containing a terminal
+	function findTabGroup(id: TerminalId): TabGroup | undefined {
+		return tabGroups.find((group) => containsPane(group.layout, id));
+	}
 
-		// Watch for theme changes
-		const themeObserver = new MutationObserver(() => {
-			term.options.theme = getVSCodeThemeColors();
-		});
-		themeObserver.observe(document.body, {
-			attributes: true,
-			attributeFilter: ["class"],
-		});
-		themeObserver.observe(document.documentElement, {
-			attributes: true,
-			attributeFilter: ["style"],
-		});
+	// Check if a terminal is in the visible tab group
+	function isTerminalVisible(id: TerminalId): boolean {
+		if (!activeTerminalId) return false;
+		const group = findTabGroup(id);
+		return group !== undefined && containsPane(group.layout, activeTerminalId);
+	}
 
-		// Keybinding passthrough
-		term.attachCustomKeyEventHandler((event: KeyboardEvent) => {
-			if (isSearchShortcut(event, IS_MAC)) {
-				event.preventDefault();
-				// Access search controller from terminals map (will exist by the time user presses keys)
-				const terminal = terminals.get(id);
-				terminal?.searchController.show();
-				return true;
-			}
-			if (isNextTabShortcut(event, IS_MAC)) {
-				event.preventDefault();
-				vscode.postMessage({ type: "next-tab-requested" });
-				return true;
-			}
-			if (isPrevTabShortcut(event, IS_MAC)) {
-				event.preventDefault();
-				vscode.postMessage({ type: "prev-tab-requested" });
-				return true;
-			}
-			return getKeyHandlerResult(event, IS_MAC, term.hasSelection?.() ?? false);
-		});
+	// Build DOM for a layout node (panes reuse their existing wrapper elements)
+	function buildLayoutElement(node: PaneLayout): HTMLElement {
+		if (node.type === "pane") {
+			const terminal = terminals.get(node.id);
+			if (terminal) return terminal.container;
+			// Pane not created yet (should not happen) - render placeholder
+			return document.createElement("div");
+		}
 
-		// Send input to PTY
-		term.onData((data: string) => {
-			vscode.postMessage({
-				type: "terminal-input",
-				terminalId: id,
-				data,
-			});
-		});
+		const split = document.createElement("div");
+		split.className = `split-container split-${node.direction}`;
 
-		// Handle bell
-		term.onBell(() => {
-			if (runtimeConfig.bellStyle === "none") return;
-			container.classList.add("bell-flash");
-			setTimeout(() => container.classList.remove("bell-flash"), 150);
-			vscode.postMessage({ type: "terminal-bell", terminalId: id });
-		});
+		const first = document.createElement("div");
+		first.className = "split-child";
+		first.appendChild(buildLayoutElement(node.first));
 
-		// Resize handling
-		let resizeDebounceTimer: ReturnType<typeof setTimeout> | null = null;
-		const resizeObserver = new ResizeObserver(() => {
-			if (resizeDebounceTimer) clearTimeout(resizeDebounceTimer);
-			resizeDebounceTimer = setTimeout(() => {
-				resizeDebounceTimer = null;
-				if (activeTerminalId === id) {
-					try {
-						fitAddon.fit();
-						vscode.postMessage({
-							type: "terminal-resize",
-							terminalId: id,
-							cols: term.cols,
-							rows: term.rows,
-						});
-					} catch (err) {
-						console.warn("[bootty] Resize error:", err);
-					}
-				}
-			}, 150);
-		});
-		resizeObserver.observe(container);
+		const second = document.createElement("div");
+		second.className = "split-child";
+		second.appendChild(buildLayoutElement(node.second));
 
-		// Bracketed paste mode: Handle paste events for this terminal
-		// VS Code webviews may intercept paste events. We need to ensure paste
-		// events are properly wrapped with bracketed paste sequences when mode 2004
-		// is enabled by the shell.
-		container.addEventListener("paste", (e: ClipboardEvent) => {
-			const text = e.clipboardData?.getData("text/plain");
-			if (!text) return;
+		const applyRatio = () => {
+			first.style.flex = `${node.ratio} 1 0`;
+			second.style.flex = `${1 - node.ratio} 1 0`;
+		};
+		applyRatio();
 
+		// Draggable divider; each pane's ResizeObserver refits and notifies its PTY
+		const divider = document.createElement("div");
+		divider.className = "split-divider";
+		divider.addEventListener("mousedown", (e: MouseEvent) => {
 			e.preventDefault();
 			e.stopPropagation();
-
-			// Use the terminal's paste() method which handles bracketed paste mode
-			if (typeof (term as any).paste === "function") {
-				(term as any).paste(text);
-			} else {
-				// Fallback: check hasBracketedPaste and wrap manually
-				const hasBracketedPaste = (term as any).hasBracketedPaste?.() ?? false;
-				if (hasBracketedPaste) {
-					vscode.postMessage({
-						type: "terminal-input",
-						terminalId: id,
-						data: `\x1b[200~${text}\x1b[201~`,
-					});
-				} else {
-					vscode.postMessage({
-						type: "terminal-input",
-						terminalId: id,
-						data: text,
-					});
-				}
-			}
+			divider.classList.add("dragging");
+			const onMove = (moveEvent: MouseEvent) => {
+				const rect = split.getBoundingClientRect();
+				const ratio =
+					node.direction === "horizontal"
+						? (moveEvent.clientX - rect.left) / rect.width
+						: (moveEvent.clientY - rect.top) / rect.height;
+				node.ratio = clampSplitRatio(ratio);
+				applyRatio();
+			};
+			const onUp = () => {
+				divider.classList.remove("dragging");
+				document.removeEventListener("mousemove", onMove);
+				document.removeEventListener("mouseup", onUp);
+				saveState();
+			};
+			document.addEventListener("mousemove", onMove);
+			document.addEventListener("mouseup", onUp);
 		});
 
-		// Drag-and-drop
-		container.addEventListener("dragover", (e) => {
-			e.preventDefault();
-			container.classList.add("drag-over");
-		});
-		container.addEventListener("dragleave", (e) => {
-			e.preventDefault();
-			container.classList.remove("drag-over");
-		});
-		container.addEventListener("drop", (e) => {
-			e.preventDefault();
-			container.classList.remove("drag-over");
-			const files = e.dataTransfer?.files;
-			if (!files || files.length === 0) return;
-			const paths: string[] = [];
-			for (let i = 0; i < files.length; i++) {
-				const file = files[i];
-				const path = (file as File & { path?: string }).path;
-				if (path) {
-					paths.push(quoteShellPath(path, IS_WINDOWS));
-				}
-			}
-			if (paths.length > 0) {
-				vscode.postMessage({
-					type: "terminal-input",
-					terminalId: id,
-					data: paths.join(" "),
-				});
-			}
-		});
+		split.append(first, divider, second);
+		return split;
+	}
 
-		// Create search controller for this terminal
-		const searchController = createSearchController(term);
+	// Re-render a tab group after its layout changed
+	function renderTabGroup(group: TabGroup): void {
+		group.element.replaceChildren(buildLayoutElement(group.layout));
+		group.element.classList.toggle("has-splits", group.layout.type === "split");
+	}
 
-		const panelTerminal: PanelTerminal = {
-			id,
-			title,
-			term,
-			fitAddon,
-			container: wrapper,
-			searchController,
-		};
-		terminals.set(id, panelTerminal);
+	// Fit all panes of a tab group and notify the extension of their sizes
+	function fitTabGroup(group: TabGroup, exceptId?: TerminalId): void {
+		for (const paneId of getPaneIds(group.layout)) {
+			const terminal = terminals.get(paneId);
+			if (!terminal || paneId === exceptId) continue;
+			const { cols, rows } = terminal.view.fit();
+			vscode.postMessage({
+				type: "terminal-resize",
+				terminalId: paneId,
+				cols,
+				rows,
+			} satisfies PanelWebviewMessage);
+		}
+	}
 
-		return panelTerminal;
+	// Fit a newly created terminal and tell the extension it can receive data
+	// Restored scrollback is written after fitting so saved lines wrap at the real width
+	function sendTerminalReady(
+		terminal: PanelTerminal,
+		restoreId?: TerminalId,
+	): void {
+		requestAnimationFrame(() => {
+			requestAnimationFrame(() => {
+				try {
+					const { cols, rows } = terminal.view.fit();
+					const savedLines = restoreId && savedState?.scrollback?.[restoreId];
+					if (savedLines) {
+						terminal.view.restoreScrollback(savedLines);
+					}
+					vscode.postMessage({
+						type: "terminal-ready",
+						terminalId: terminal.id,
+						cols,
+						rows,
+					} satisfies PanelWebviewMessage);
+				} catch (err) {
+					logWebviewError(postMessage, "warn", "Fit error", err);
+				}
+			});
+		});
 	}
 
-	// Activate a terminal (show it, hide others)
+	// Activate a terminal (show its tab group, hide others, focus the pane)
 	function activateTerminal(id: TerminalId): void {
 		const terminal = terminals.get(id);
-		if (!terminal) return;
+		const group = findTabGroup(id);
+		if (!terminal || !group) return;
 
 		activeTerminalId = id;
 
-		// Update terminal visibility
+		// Update tab group visibility and pane focus indicator
+		for (const g of tabGroups) {
+			g.element.classList.toggle("active", g === group);
+		}
 		for (const [tid, t] of terminals) {
-			t.container.classList.toggle("active", tid === id);
+			t.container.classList.toggle("focused", tid === id);
 		}
 
-		// Fit the active terminal and notify extension
+		// Fit the visible panes and notify extension
 		requestAnimationFrame(() => {
 			requestAnimationFrame(() => {
 				try {
-					// biome-ignore lint/suspicious/noFocusedTests: This is xterm FitAddon.fit(), not a test
-					(terminal.fitAddon as unknown as { fit: () => void }).fit();
-					const term = terminal.term as unknown as {
-						cols: number;
-						rows: number;
-						focus?: () => void;
-					};
+					const { cols, rows } = terminal.view.fit();
 					vscode.postMessage({
 						type: "tab-activated",
 						terminalId: id,
-						cols: term.cols,
-						rows: term.rows,
+						cols,
+						rows,
 					} satisfies PanelWebviewMessage);
-					term.focus?.();
+					fitTabGroup(group, id);
+					terminal.view.focus();
 				} catch (err) {
-					console.warn("[bootty] Fit error:", err);
+					logWebviewError(postMessage, "warn", "Fit error", err);
 				}
 			});
 		});
@@ -500,58 +322,152 @@ interface PanelTerminal {
 		saveState();
 	}
 
+	// Add a terminal as a new tab
+	function addTab(terminal: PanelTerminal): void {
+		const element = document.createElement("div");
+		element.className = "tab-group";
+		terminalsContainer.appendChild(element);
+		const group: TabGroup = { element, layout: createPaneLayout(terminal.id) };
+		tabGroups.push(group);
+		renderTabGroup(group);
+	}
+
+	// Add a terminal as a split pane next to an existing one
+	function addPane(
+		terminal: PanelTerminal,
+		targetId: TerminalId,
+		direction: "horizontal" | "vertical",
+		ratio: number,
+	): void {
+		const group = findTabGroup(targetId);
+		if (!group) {
+			// Target pane is gone (closed meanwhile) - fall back to a new tab
+			addTab(terminal);
+			return;
+		}
+		group.layout = splitPane(
+			group.layout,
+			targetId,
+			terminal.id,
+			direction,
+			ratio,
+		);
+		renderTabGroup(group);
+		if (isTerminalVisible(targetId)) {
+			// Existing panes shrank - refit them once layout settles
+			requestAnimationFrame(() => fitTabGroup(group, terminal.id));
+		}
+	}
+
 	// Remove a terminal
 	function removeTerminal(id: TerminalId): void {
 		const terminal = terminals.get(id);
 		if (!terminal) return;
 
-		// Clean up search controller
-		terminal.searchController.destroy();
+		// Dispose the terminal with its search overlay and prompt decorations
+		terminal.view.dispose();
 
 		// Remove DOM elements
 		terminal.container.remove();
 
 		terminals.delete(id);
 
+		// Remove pane from its tab group (sibling takes over its area)
+		const group = findTabGroup(id);
+		let nextId: TerminalId | undefined;
+		if (group) {
+			nextId = getAdjacentPaneId(group.layout, id, -1);
+			const layout = removePane(group.layout, id);
+			if (layout) {
+				group.layout = layout;
+				renderTabGroup(group);
+			} else {
+				group.element.remove();
+				tabGroups.splice(tabGroups.indexOf(group), 1);
+				nextId = undefined;
+			}
+		}
+
 		// Activate another terminal if this was active
 		if (activeTerminalId === id) {
-			const remaining = Array.from(terminals.keys());
-			if (remaining.length > 0) {
-				activateTerminal(remaining[remaining.length - 1]);
+			const lastGroup = tabGroups[tabGroups.length - 1];
+			const fallbackId = lastGroup ? getPaneIds(lastGroup.layout)[0] : null;
+			const targetId = nextId ?? fallbackId;
+			if (targetId) {
+				activateTerminal(targetId);
 			} else {
 				activeTerminalId = null;
 			}
+		} else if (
+			group &&
+			activeTerminalId &&
+			isTerminalVisible(activeTerminalId)
+		) {
+			// Remaining panes of the visible tab grew - refit them
+			requestAnimationFrame(() => fitTabGroup(group));
 		}
 
 		saveState();
 	}
 
 	// Rename a terminal
-	function renameTerminal(id: TerminalId, title: string): void {
+	function renameTerminal(id: TerminalId, title: string, custom = false): void {
 		const terminal = terminals.get(id);
 		if (!terminal) return;
 
 		terminal.title = title;
+		terminal.customTitle = custom;
 		saveState();
 	}
 
-	// Save webview state
-	function saveState(): void {
+	// Scrollback from the last full save (layout-only saves carry it over)
+	let savedScrollback: Record<TerminalId, string[]> = {};
+
+	/**
+	 * Save webview state
+	 * Reading scrollback is costly (thousands of lines per terminal), so it's
+	 * only captured when `withScrollback` is set: on hide and periodically.
+	 * Tab, title and layout changes save just those.
+	 */
+	function saveState(withScrollback = false): void {
 		const tabs: WebviewState["tabs"] = [];
 		const currentCwd: Record<TerminalId, string> = {};
-
-		for (const [id, t] of terminals) {
-			tabs.push({
-				id,
-				title: t.title,
-				active: id === activeTerminalId,
-			});
-			if (t.currentCwd) {
-				currentCwd[id] = t.currentCwd;
+		const layouts: PaneLayout[] = [];
+		const scrollback: Record<TerminalId, string[]> = {};
+
+		// Save in tab group order so restore recreates tabs in the same order
+		for (const group of tabGroups) {
+			for (const id of getPaneIds(group.layout)) {
+				const t = terminals.get(id);
+				if (!t) continue;
+				tabs.push({
+					id,
+					title: t.title,
+					active: id === activeTerminalId,
+					customTitle: t.customTitle,
+				});
+				if (t.view.cwd) {
+					currentCwd[id] = t.view.cwd;
+				}
+				const lines = withScrollback
+					? t.view.getScrollbackLines()
+					: savedScrollback[id];
+				if (lines && lines.length > 0) {
+					scrollback[id] = lines;
+				}
+			}
+			if (group.layout.type === "split") {
+				layouts.push(group.layout);
 			}
 		}
 
-		vscode.setState({ tabs, currentCwd } as WebviewState);
+		savedScrollback = scrollback;
+		vscode.setState({
+			tabs,
+			currentCwd,
+			layouts,
+			scrollback,
+		} as WebviewState);
 	}
 
 	// Handle messages from extension
@@ -560,172 +476,104 @@ interface PanelTerminal {
 
 		switch (msg.type) {
 			case "add-tab": {
-				const terminal = createTerminal(msg.terminalId, msg.title);
+				const terminal = createTerminal(
+					msg.terminalId,
+					msg.title,
+					msg.restoreId,
+				);
+				addTab(terminal);
 				if (msg.makeActive) {
 					activateTerminal(msg.terminalId);
 				}
-				// Send terminal-ready
-				requestAnimationFrame(() => {
-					requestAnimationFrame(() => {
-						try {
-							// biome-ignore lint/suspicious/noFocusedTests: This is xterm FitAddon.fit(), not a test
-							(terminal.fitAddon as unknown as { fit: () => void }).fit();
-							const term = terminal.term as unknown as {
-								cols: number;
-								rows: number;
-							};
-							vscode.postMessage({
-								type: "terminal-ready",
-								terminalId: msg.terminalId,
-								cols: term.cols,
-								rows: term.rows,
-							});
-						} catch (err) {
-							console.warn("[bootty] Fit error:", err);
-						}
-					});
-				});
+				sendTerminalReady(terminal, msg.restoreId);
 				break;
 			}
 
-			case "remove-tab":
-				removeTerminal(msg.terminalId);
-				break;
-
-			case "rename-tab":
-				renameTerminal(msg.terminalId, msg.title);
-				break;
-
-			case "activate-tab":
-				activateTerminal(msg.terminalId);
-				break;
-
-			case "focus-terminal": {
-				if (activeTerminalId) {
-					const terminal = terminals.get(activeTerminalId);
-					if (terminal) {
-						const term = terminal.term as unknown as { focus?: () => void };
-						term.focus?.();
-					}
+			case "add-pane": {
+				const terminal = createTerminal(
+					msg.terminalId,
+					msg.title,
+					msg.restoreId,
+				);
+				addPane(terminal, msg.targetId, msg.direction, msg.ratio);
+				if (msg.makeActive) {
+					activateTerminal(msg.terminalId);
 				}
+				sendTerminalReady(terminal, msg.restoreId);
+				saveState();
 				break;
 			}
 
-			case "show-search": {
+			case "split-active-pane": {
 				if (activeTerminalId) {
-					const terminal = terminals.get(activeTerminalId);
-					terminal?.searchController.show();
+					vscode.postMessage({
+						type: "split-requested",
+						terminalId: activeTerminalId,
+						direction: msg.direction,
+					} satisfies PanelWebviewMessage);
 				}
 				break;
 			}
 
-			case "pty-data": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					(terminal.term as unknown as { write: (data: string) => void }).write(
-						msg.data,
-					);
+			case "focus-adjacent-pane": {
+				if (activeTerminalId) {
+					const group = findTabGroup(activeTerminalId);
+					const targetId = group
+						? getAdjacentPaneId(group.layout, activeTerminalId, msg.offset)
+						: undefined;
+					if (targetId && targetId !== activeTerminalId) {
+						activateTerminal(targetId);
+					}
 				}
 				break;
 			}
 
-			case "pty-exit": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					(terminal.term as unknown as { write: (data: string) => void }).write(
-						`\r\n\x1b[90m[Process exited with code ${msg.exitCode}]\x1b[0m\r\n`,
-					);
-				}
+			case "remove-tab":
+				removeTerminal(msg.terminalId);
 				break;
-			}
 
-			case "resize": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					(
-						terminal.term as unknown as {
-							resize: (cols: number, rows: number) => void;
-						}
-					).resize(msg.cols, msg.rows);
-				}
+			case "rename-tab":
+				renameTerminal(msg.terminalId, msg.title, msg.custom);
 				break;
-			}
 
-			case "update-settings": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					const term = terminal.term as unknown as {
-						options: { fontFamily?: string; fontSize?: number };
-						cols: number;
-						rows: number;
-					};
-					if (msg.settings.fontFamily !== undefined) {
-						term.options.fontFamily = msg.settings.fontFamily;
-					}
-					if (msg.settings.fontSize !== undefined) {
-						term.options.fontSize = msg.settings.fontSize;
-					}
-					// biome-ignore lint/suspicious/noFocusedTests: This is xterm FitAddon.fit(), not a test
-					(terminal.fitAddon as unknown as { fit: () => void }).fit();
-					vscode.postMessage({
-						type: "terminal-resize",
-						terminalId: msg.terminalId,
-						cols: term.cols,
-						rows: term.rows,
-					});
-				}
+			case "activate-tab":
+				activateTerminal(msg.terminalId);
 				break;
-			}
 
-			case "update-theme": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					const baseTheme = getVSCodeThemeColors();
-					const mergedTheme: TerminalTheme = { ...baseTheme };
-					for (const [key, value] of Object.entries(msg.theme)) {
-						if (value !== undefined) {
-							(mergedTheme as Record<string, string | undefined>)[key] = value;
-						}
-					}
-					(
-						terminal.term as unknown as {
-							options: { theme: TerminalTheme };
-						}
-					).options.theme = mergedTheme;
+			case "focus-terminal": {
+				if (activeTerminalId) {
+					terminals.get(activeTerminalId)?.view.focus();
 				}
 				break;
 			}
 
-			case "update-cwd": {
-				const terminal = terminals.get(msg.terminalId);
-				if (terminal) {
-					terminal.currentCwd = msg.cwd;
+			// Search and prompt navigation act on the focused pane
+			case "show-search":
+			case "scroll-to-command": {
+				if (activeTerminalId) {
+					terminals.get(activeTerminalId)?.view.handleMessage(msg);
 				}
 				break;
 			}
 
-			case "batch-file-exists-result": {
-				// Resolve batch file existence checks for the specific batch
-				const batch = pendingBatches.get(msg.batchId);
-				if (batch) {
-					pendingBatches.delete(msg.batchId);
-					for (const result of msg.results) {
-						const callbacks = batch.get(result.path);
-						if (callbacks) {
-							fileCache.set(result.path, result.exists);
-							for (const cb of callbacks) {
-								cb(result.exists);
-							}
-						}
-					}
-				}
+			case "batch-file-exists-result":
+				fileChecker.handleResult(msg.batchId, msg.results);
 				break;
-			}
 
 			case "update-config": {
 				runtimeConfig = msg.config;
 				break;
 			}
+
+			default: {
+				if (
+					msg.type === "update-settings" &&
+					msg.settings.scrollback !== undefined
+				) {
+					scrollbackLimit = msg.settings.scrollback;
+				}
+				terminals.get(msg.terminalId)?.view.handleMessage(msg);
+			}
 		}
 	});
 
@@ -767,6 +615,13 @@ interface PanelTerminal {
 		// State restoration is handled by panel-view-provider
 	}
 
+	// Save state when the webview is hidden (may be about to be destroyed)
+	document.addEventListener("visibilitychange", () => {
+		if (document.hidden) {
+			saveState(true);
+		}
+	});
+
 	// Periodic state save
-	setInterval(saveState, 30000);
+	setInterval(() => saveState(true), 30000);
 })();
@@ -0,0 +1,178 @@
+/**
+ * Prompt navigation and command decorations for terminal webviews
+ * Records where shell integration (OSC 133) prompts land in the buffer,
+ * draws exit-status markers in a gutter, and scrolls between prompts.
+ */
+
+import { createOscParser } from "../osc-parser";
+import {
+	createPromptMarkSplitter,
+	type PromptMark,
+} from "../shell-integration";
+
+/** Terminal interface for prompt tracking */
+export interface PromptNavigableTerminal {
+	rows: number;
+	buffer?: {
+		active?: {
+			type?: "normal" | "alternate";
+			cursorY: number;
+		};
+	};
+	renderer?: { charHeight: number };
+	write(data: string): void;
+	getScrollbackLength?(): number;
+	getViewportY?(): number;
+	scrollToLine?(line: number): void;
+	onRender?(listener: () => void): { dispose(): void };
+	onScroll?(listener: () => void): { dispose(): void };
+}
+
+/** A prompt recorded at an absolute buffer row */
+interface PromptRecord {
+	row: number; // Absolute row (0 = top of scrollback)
+	exitCode?: number; // Set when the command started at this prompt finishes
+	executed: boolean; // True once the command started running ("C" mark)
+}
+
+/** Prompt navigator for a single terminal */
+export interface PromptNavigator {
+	/** Write PTY output, recording prompt positions along the way */
+	write(data: string): void;
+	/** Scroll so the previous/next prompt is at the top of the viewport */
+	scrollToPrompt(direction: "previous" | "next"): void;
+	dispose(): void;
+}
+
+// Cap recorded prompts (oldest scroll out of the buffer anyway)
+const MAX_PROMPTS = 1000;
+
+/**
+ * Create a prompt navigator for a terminal
+ * Rows are captured when marks are written; once scrollback is full and old
+ * lines are trimmed, recorded rows drift upward until they scroll out.
+ * @param term - ghostty-web Terminal instance
+ * @param container - Element the terminal was opened in (hosts the gutter)
+ */
+export function createPromptNavigator(
+	term: PromptNavigableTerminal,
+	container: HTMLElement,
+): PromptNavigator {
+	const prompts: PromptRecord[] = [];
+	const parser = createOscParser();
+	const marks = createPromptMarkSplitter(parser);
+	let renderedKey = ""; // Skip DOM updates when nothing visible changed
+	const gutter = document.createElement("div");
+	gutter.className = "command-gutter";
+	container.appendChild(gutter);
+
+	function getScrollbackLength(): number {
+		return term.getScrollbackLength?.() ?? 0;
+	}
+
+	// Absolute row of the first visible line
+	function getViewportTop(): number {
+		return getScrollbackLength() - Math.round(term.getViewportY?.() ?? 0);
+	}
+
+	function recordMark(mark: PromptMark): void {
+		const buffer = term.buffer?.active;
+		// Full-screen apps don't emit prompts; ignore marks on the alternate screen
+		if (!buffer || buffer.type === "alternate") return;
+		const row = getScrollbackLength() + buffer.cursorY;
+		const last = prompts[prompts.length - 1];
+
+		switch (mark.kind) {
+			case "A":
+				// A prompt at or above an earlier one means the screen was cleared
+				while (prompts.length > 0 && prompts[prompts.length - 1].row >= row) {
+					prompts.pop();
+				}
+				prompts.push({ row, executed: false });
+				if (prompts.length > MAX_PROMPTS) {
+					prompts.shift();
+				}
+				break;
+			case "C":
+				if (last) last.executed = true;
+				break;
+			case "D":
+				if (last?.executed) last.exitCode = mark.exitCode ?? 0;
+				break;
+		}
+		renderedKey = "";
+		renderGutter();
+	}
+
+	function renderGutter(): void {
+		const charHeight =
+			term.renderer?.charHeight || container.clientHeight / term.rows;
+		const top = getViewportTop();
+		const key = `${top}:${term.rows}:${charHeight}`;
+		if (key === renderedKey) return;
+		renderedKey = key;
+
+		const markers: HTMLElement[] = [];
+
+		for (const prompt of prompts) {
+			const offset = prompt.row - top;
+			if (offset < 0 || offset >= term.rows || prompt.exitCode === undefined) {
+				continue;
+			}
+			const marker = document.createElement("div");
+			marker.className =
+				prompt.exitCode === 0
+					? "command-marker success"
+					: "command-marker error";
+			marker.style.top = `${offset * charHeight}px`;
+			marker.style.height = `${charHeight}px`;
+			marker.title =
+				prompt.exitCode === 0
+					? "Command succeeded"
+					: `Command failed (exit code ${prompt.exitCode})`;
+			markers.push(marker);
+		}
+		gutter.replaceChildren(...markers);
+	}
+
+	function write(data: string): void {
+		parser.feed(data);
+		for (const segment of marks.split(data)) {
+			term.write(segment.text);
+			// Writes are parsed synchronously, so the cursor is now at the mark
+			// (the write callback fires a frame later, after further output)
+			if (segment.mark) {
+				recordMark(segment.mark);
+			}
+		}
+	}
+
+	function scrollToPrompt(direction: "previous" | "next"): void {
+		const top = getViewportTop();
+		let target: PromptRecord | undefined;
+		if (direction === "previous") {
+			for (let i = prompts.length - 1; i >= 0 && !target; i--) {
+				if (prompts[i].row < top) target = prompts[i];
+			}
+		} else {
+			target = prompts.find((prompt) => prompt.row > top);
+		}
+
+		if (target) {
+			term.scrollToLine?.(Math.max(0, getScrollbackLength() - target.row));
+		} else if (direction === "next") {
+			term.scrollToLine?.(0); // Past the last prompt: back to live output
+		}
+	}
+
+	const renderListener = term.onRender?.(renderGutter);
+	const scrollListener = term.onScroll?.(renderGutter);
+
+	function dispose(): void {
+		renderListener?.dispose();
+		scrollListener?.dispose();
+		gutter.remove();
+	}
+
+	return { write, scrollToPrompt, dispose };
+}
@@ -1,8 +1,17 @@
 /**
  * Search functionality for terminal webview
- * Handles search overlay UI, match finding, and navigation
+ * Handles search overlay UI, match highlighting, and navigation
+ * (match finding lives in ../terminal-search.ts)
  */
 
+import {
+	buildSearchPattern,
+	findSearchMatches,
+	getMatchesInRows,
+	type SearchMatch,
+	type SearchOptions,
+} from "../terminal-search";
+
 /** Terminal interface for search operations */
 export interface SearchableTerminal {
 	rows: number;
@@ -14,18 +23,15 @@ export interface SearchableTerminal {
 			): { translateToString(trimRight: boolean): string } | undefined;
 		};
 	};
+	renderer?: { charWidth: number; charHeight: number };
 	getScrollbackLength?(): number;
+	getViewportY?(): number;
 	scrollToLine?(line: number): void;
 	select?(col: number, row: number, length: number): void;
 	clearSelection?(): void;
 	focus?(): void;
-}
-
-/** Search match location */
-interface SearchMatch {
-	row: number;
-	startCol: number;
-	endCol: number;
+	onRender?(listener: () => void): { dispose(): void };
+	onScroll?(listener: () => void): { dispose(): void };
 }
 
 /** Search controller manages search overlay and match navigation */
@@ -45,6 +51,9 @@ function createSearchOverlay(): HTMLElement {
 	overlay.innerHTML = `
     <div class="search-container">
       <input type="text" class="search-input" placeholder="Search..." />
+      <button class="search-option" data-option="caseSensitive" title="Match Case (Alt+C)" aria-pressed="false">Aa</button>
+      <button class="search-option" data-option="wholeWord" title="Match Whole Word (Alt+W)" aria-pressed="false"><u>ab</u></button>
+      <button class="search-option" data-option="regex" title="Use Regular Expression (Alt+R)" aria-pressed="false">.*</button>
       <span class="search-results-count"></span>
       <button class="search-prev" title="Previous (Shift+Enter)">▲</button>
       <button class="search-next" title="Next (Enter)">▼</button>
@@ -73,18 +82,33 @@ function getTerminalLines(term: SearchableTerminal): string[] {
 	return lines;
 }
 
+// Alt+key shortcuts for the option toggles (same as VS Code's find widget)
+const OPTION_KEYS: Record<string, keyof SearchOptions> = {
+	c: "caseSensitive",
+	w: "wholeWord",
+	r: "regex",
+};
+
 /**
  * Create a search controller for the terminal
+ * The query and options are kept while hidden, so reopening repeats the search.
  * @param term - Terminal instance with search capabilities
+ * @param container - Element the terminal was opened in (hosts match highlights)
  * @returns SearchController instance
  */
 export function createSearchController(
 	term: SearchableTerminal,
+	container?: HTMLElement,
 ): SearchController {
 	// Create and append overlay
 	const searchOverlay = createSearchOverlay();
 	document.body.appendChild(searchOverlay);
 
+	// Match highlights, drawn over the terminal canvas
+	const highlightLayer = document.createElement("div");
+	highlightLayer.className = "search-highlights";
+	container?.appendChild(highlightLayer);
+
 	// Get DOM elements within this overlay (not global getElementById)
 	const searchInput = searchOverlay.querySelector(
 		".search-input",
@@ -101,18 +125,76 @@ export function createSearchController(
 	const searchCloseBtn = searchOverlay.querySelector(
 		".search-close",
 	) as HTMLElement;
+	const optionButtons = Array.from(
+		searchOverlay.querySelectorAll<HTMLButtonElement>(".search-option"),
+	);
 
 	// Search state
+	const options: SearchOptions = {
+		regex: false,
+		caseSensitive: false,
+		wholeWord: false,
+	};
 	let searchMatches: SearchMatch[] = [];
 	let currentMatchIndex = -1;
+	let invalidPattern = false;
+	let visible = false;
+	let renderedKey = ""; // Skip DOM updates when nothing visible changed
 
 	// Update search UI with results count
 	function updateSearchUI(): void {
-		if (searchMatches.length === 0) {
+		searchInput.classList.toggle("invalid", invalidPattern);
+		if (invalidPattern) {
+			searchResultsCount.textContent = "Invalid regex";
+		} else if (searchMatches.length === 0) {
 			searchResultsCount.textContent = searchInput.value ? "No results" : "";
 		} else {
 			searchResultsCount.textContent = `${currentMatchIndex + 1} of ${searchMatches.length}`;
 		}
+		for (const button of optionButtons) {
+			const active = options[button.dataset.option as keyof SearchOptions];
+			button.classList.toggle("active", active);
+			button.setAttribute("aria-pressed", String(active));
+		}
+	}
+
+	// Absolute row of the first visible line
+	function getViewportTop(): number {
+		const scrollbackLength = term.getScrollbackLength?.() ?? 0;
+		return scrollbackLength - Math.round(term.getViewportY?.() ?? 0);
+	}
+
+	// Draw a box over every match in the viewport (the current one is emphasized)
+	function renderHighlights(): void {
+		if (!container) return;
+		const canvas = container.querySelector("canvas");
+		const charWidth = term.renderer?.charWidth;
+		const charHeight = term.renderer?.charHeight;
+		if (!visible || !canvas || !charWidth || !charHeight) {
+			if (renderedKey !== "") highlightLayer.replaceChildren();
+			renderedKey = "";
+			return;
+		}
+
+		const top = getViewportTop();
+		const key = `${top}:${term.rows}:${charWidth}:${charHeight}:${currentMatchIndex}:${searchMatches.length}`;
+		if (key === renderedKey) return;
+		renderedKey = key;
+
+		const current = searchMatches[currentMatchIndex];
+		const boxes = getMatchesInRows(searchMatches, top, top + term.rows).map(
+			(match) => {
+				const box = document.createElement("div");
+				box.className =
+					match === current ? "search-highlight current" : "search-highlight";
+				box.style.left = `${canvas.offsetLeft + match.startCol * charWidth}px`;
+				box.style.top = `${canvas.offsetTop + (match.row - top) * charHeight}px`;
+				box.style.width = `${(match.endCol - match.startCol + 1) * charWidth}px`;
+				box.style.height = `${charHeight}px`;
+				return box;
+			},
+		);
+		highlightLayer.replaceChildren(...boxes);
 	}
 
 	// Highlight the current match by selecting it
@@ -152,35 +234,24 @@ export function createSearchController(
 		}
 
 		updateSearchUI();
+		renderHighlights();
 	}
 
 	// Perform search and find all matches
 	function performSearch(query: string): void {
 		searchMatches = [];
 		currentMatchIndex = -1;
+		const pattern = buildSearchPattern(query, options);
+		invalidPattern = query !== "" && !pattern;
 
-		if (!query) {
+		if (!pattern) {
 			updateSearchUI();
+			renderHighlights();
 			term.clearSelection?.();
 			return;
 		}
 
-		const lines = getTerminalLines(term);
-		const lowerQuery = query.toLowerCase();
-
-		for (let row = 0; row < lines.length; row++) {
-			const line = lines[row].toLowerCase();
-			let col = 0;
-			while ((col = line.indexOf(lowerQuery, col)) !== -1) {
-				searchMatches.push({
-					row,
-					startCol: col,
-					endCol: col + query.length - 1,
-				});
-				col += 1; // Move past this match to find overlapping matches
-			}
-		}
-
+		searchMatches = findSearchMatches(getTerminalLines(term), pattern);
 		updateSearchUI();
 
 		// Auto-select first match
@@ -188,6 +259,7 @@ export function createSearchController(
 			currentMatchIndex = 0;
 			highlightCurrentMatch();
 		} else {
+			renderHighlights();
 			term.clearSelection?.();
 		}
 	}
@@ -207,20 +279,29 @@ export function createSearchController(
 		highlightCurrentMatch();
 	}
 
-	// Show search overlay
+	// Flip an option and search again
+	function toggleOption(option: keyof SearchOptions): void {
+		options[option] = !options[option];
+		performSearch(searchInput.value);
+	}
+
+	// Show search overlay, repeating the previous search (output may have changed)
 	function show(): void {
 		searchOverlay.style.display = "block";
+		visible = true;
 		searchInput.focus();
 		searchInput.select();
+		performSearch(searchInput.value);
 	}
 
-	// Hide search overlay
+	// Hide search overlay (query and options are kept for next time)
 	function hide(): void {
 		searchOverlay.style.display = "none";
-		searchInput.value = "";
+		visible = false;
 		searchMatches = [];
 		currentMatchIndex = -1;
 		searchResultsCount.textContent = "";
+		renderHighlights();
 		term.clearSelection?.();
 		term.focus?.();
 	}
@@ -229,7 +310,11 @@ export function createSearchController(
 	const handleInput = () => performSearch(searchInput.value);
 
 	const handleKeydown = (e: KeyboardEvent) => {
-		if (e.key === "Enter") {
+		const option = e.altKey ? OPTION_KEYS[e.key.toLowerCase()] : undefined;
+		if (option) {
+			e.preventDefault();
+			toggleOption(option);
+		} else if (e.key === "Enter") {
 			e.preventDefault();
 			if (e.shiftKey) {
 				goToPrevMatch();
@@ -242,12 +327,23 @@ export function createSearchController(
 		}
 	};
 
+	const handleOptionClick = (e: Event) => {
+		const button = e.currentTarget as HTMLButtonElement;
+		toggleOption(button.dataset.option as keyof SearchOptions);
+		searchInput.focus();
+	};
+
 	// Attach event listeners
 	searchInput.addEventListener("input", handleInput);
 	searchInput.addEventListener("keydown", handleKeydown);
 	searchPrevBtn.addEventListener("click", goToPrevMatch);
 	searchNextBtn.addEventListener("click", goToNextMatch);
 	searchCloseBtn.addEventListener("click", hide);
+	for (const button of optionButtons) {
+		button.addEventListener("click", handleOptionClick);
+	}
+	const renderListener = term.onRender?.(renderHighlights);
+	const scrollListener = term.onScroll?.(renderHighlights);
 
 	// Cleanup function
 	function destroy(): void {
@@ -256,7 +352,13 @@ export function createSearchController(
 		searchPrevBtn.removeEventListener("click", goToPrevMatch);
 		searchNextBtn.removeEventListener("click", goToNextMatch);
 		searchCloseBtn.removeEventListener("click", hide);
+		for (const button of optionButtons) {
+			button.removeEventListener("click", handleOptionClick);
+		}
+		renderListener?.dispose();
+		scrollListener?.dispose();
 		searchOverlay.remove();
+		highlightLayer.remove();
 	}
 
 	return { show, hide, destroy };
@@ -0,0 +1,642 @@
+/**
+ * Terminal view shared by the editor (main.ts) and panel (panel-main.ts) webviews
+ * Owns one ghostty-web terminal and its addons (fit, file links, search,
+ * prompt navigation) along with input, paste, drag-and-drop, bell and resize
+ * handling. The entry points only lay views out and route messages to them.
+ */
+
+import {
+	createFileCache,
+	isWindowsPlatform,
+	quoteShellPath,
+	resolvePath,
+} from "../file-cache";
+import { parseHyperlinkTarget } from "../hyperlinks";
+import {
+	getKeyHandlerResult,
+	isLinkActivation,
+	isMacPlatform,
+	isSearchShortcut,
+} from "../keybinding-utils";
+import { createAckCounter } from "../output-flow";
+import {
+	extractScrollbackLines,
+	formatRestoredScrollback,
+} from "../scrollback";
+import { exportScrollback } from "../scrollback-export";
+import type {
+	ExtensionMessage,
+	RuntimeConfig,
+	TerminalTheme,
+	WebviewMessage,
+} from "../types/messages";
+import type { TerminalId } from "../types/terminal";
+import {
+	createFileLinkProvider,
+	FILE_PATH_PATTERN_SINGLE,
+} from "./file-link-provider";
+import { createHyperlinkProvider } from "./hyperlink-provider";
+import { createPromptNavigator } from "./prompt-navigator";
+import { createSearchController } from "./search-controller";
+import { createThemeObserver, getVSCodeThemeColors } from "./theme-utils";
+
+/** Sends a message to the extension (acquireVsCodeApi().postMessage) */
+type PostMessage = (message: WebviewMessage) => void;
+
+/** Loaded ghostty-web module, shared by all views in a webview */
+export interface GhosttyRuntime {
+	Terminal: new (options: Record<string, unknown>) => any;
+	FitAddon: new () => any;
+	ghostty: unknown; // Ghostty.load() instance (undefined with init()-style builds)
+}
+
+/** WASM load attempts (fetching it can fail transiently while the webview starts) */
+const WASM_LOAD_ATTEMPTS = 3;
+const WASM_RETRY_DELAY_MS = 500;
+
+/** Log an error to the webview console and the BooTTY output channel */
+export function logWebviewError(
+	postMessage: PostMessage,
+	level: "warn" | "error",
+	context: string,
+	err: unknown,
+): void {
+	console[level](`[bootty] ${context}:`, err);
+	const detail = err instanceof Error ? err.message : String(err);
+	postMessage({ type: "log", level, message: `${context}: ${detail}` });
+}
+
+/** Run a WASM load, retrying with a growing delay */
+async function retryWasmLoad<T>(
+	load: () => Promise<T>,
+	onRetry: (attempt: number, err: unknown) => void,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await load();
+		} catch (err) {
+			if (attempt >= WASM_LOAD_ATTEMPTS) throw err;
+			onRetry(attempt, err);
+			await new Promise((resolve) =>
+				setTimeout(resolve, WASM_RETRY_DELAY_MS * attempt),
+			);
+		}
+	}
+}
+
+/** Find the ghostty-web module and load its WASM */
+async function loadGhosttyModule(
+	wasmUrl: string,
+	onRetry: (attempt: number, err: unknown) => void,
+): Promise<GhosttyRuntime> {
+	const GhosttyModule =
+		(window as any).GhosttyWeb || (window as any).ghosttyWeb;
+
+	// Guard for missing global (script load failure)
+	if (!GhosttyModule) {
+		throw new Error(
+			"ghostty-web failed to load: GhosttyWeb global not found. Check script loading and CSP.",
+		);
+	}
+
+	const Ghostty = GhosttyModule.Ghostty || GhosttyModule.default?.Ghostty;
+	let ghostty: unknown;
+	if (Ghostty && typeof Ghostty.load === "function") {
+		ghostty = await retryWasmLoad(() => Ghostty.load(wasmUrl), onRetry);
+	} else if (GhosttyModule.init && typeof GhosttyModule.init === "function") {
+		await retryWasmLoad(() => GhosttyModule.init(), onRetry);
+	} else if (GhosttyModule.default?.init) {
+		await retryWasmLoad(() => GhosttyModule.default.init(), onRetry);
+	}
+
+	const Terminal = GhosttyModule.Terminal || GhosttyModule.default?.Terminal;
+	const FitAddon = GhosttyModule.FitAddon || GhosttyModule.default?.FitAddon;
+	if (!Terminal) throw new Error("ghostty-web Terminal not found");
+	if (!FitAddon) throw new Error("ghostty-web FitAddon not found");
+
+	return { Terminal, FitAddon, ghostty };
+}
+
+/**
+ * Load ghostty-web and its WASM (retried a few times)
+ * Prefers Ghostty.load(wasmUrl) if available, falling back to init().
+ * Retries and failures are logged, and the load time is reported
+ * (wasm-loaded) for diagnostics.
+ */
+export async function loadGhostty(
+	wasmUrl: string,
+	webview: "editor" | "panel",
+	postMessage: PostMessage,
+): Promise<GhosttyRuntime> {
+	const start = performance.now();
+	let attempts = 1;
+	try {
+		const runtime = await loadGhosttyModule(wasmUrl, (attempt, err) => {
+			attempts = attempt + 1;
+			logWebviewError(
+				postMessage,
+				"warn",
+				`WASM load failed (attempt ${attempt})`,
+				err,
+			);
+		});
+		postMessage({
+			type: "wasm-loaded",
+			webview,
+			loadTimeMs: Math.round(performance.now() - start),
+			attempts,
+		});
+		return runtime;
+	} catch (err) {
+		logWebviewError(postMessage, "error", "Failed to load ghostty-web", err);
+		throw err;
+	}
+}
+
+/** Batched, cached file existence checks (one per webview) */
+export interface FileExistsChecker {
+	check(path: string, terminalId: TerminalId): Promise<boolean>;
+	/** Resolve a batch from a batch-file-exists-result message */
+	handleResult(
+		batchId: number,
+		results: Array<{ path: string; exists: boolean }>,
+	): void;
+}
+
+const BATCH_DEBOUNCE_MS = 50; // Wait 50ms to collect paths before sending batch
+const BATCH_TIMEOUT_MS = 2000; // Treat paths as missing if the extension doesn't answer
+
+/**
+ * Create a file existence checker
+ * Paths requested within BATCH_DEBOUNCE_MS are sent in one batch per terminal
+ * (the extension searches the workspace relative to that terminal's cwd);
+ * each batch gets a unique ID so callbacks are tracked per batch.
+ */
+export function createFileExistsChecker(
+	postMessage: PostMessage,
+): FileExistsChecker {
+	const fileCache = createFileCache(5000, 100); // 5s TTL, max 100 entries
+	// Map: batchId -> Map<path, callbacks[]>
+	const pendingBatches = new Map<
+		number,
+		Map<string, Array<(exists: boolean) => void>>
+	>();
+	// Batches being accumulated (not yet sent), per requesting terminal
+	const currentBatches = new Map<
+		TerminalId,
+		Map<string, Array<(exists: boolean) => void>>
+	>();
+	let nextBatchId = 0;
+	let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+	function flush(): void {
+		for (const [terminalId, batch] of currentBatches) {
+			send(terminalId, batch);
+		}
+		currentBatches.clear();
+	}
+
+	function send(
+		terminalId: TerminalId,
+		batch: Map<string, Array<(exists: boolean) => void>>,
+	): void {
+		const batchId = nextBatchId++;
+		pendingBatches.set(batchId, batch);
+
+		postMessage({
+			type: "batch-check-file-exists",
+			terminalId,
+			batchId,
+			paths: Array.from(batch.keys()),
+		});
+
+		setTimeout(() => {
+			if (!pendingBatches.delete(batchId)) return;
+			for (const [path, callbacks] of batch) {
+				fileCache.set(path, false);
+				for (const cb of callbacks) cb(false);
+			}
+		}, BATCH_TIMEOUT_MS);
+	}
+
+	return {
+		check(path, terminalId) {
+			const cached = fileCache.get(path);
+			if (cached !== undefined) {
+				return Promise.resolve(cached);
+			}
+
+			return new Promise((resolve) => {
+				let batch = currentBatches.get(terminalId);
+				if (!batch) {
+					batch = new Map();
+					currentBatches.set(terminalId, batch);
+				}
+				const existing = batch.get(path);
+				if (existing) {
+					existing.push(resolve);
+				} else {
+					batch.set(path, [resolve]);
+				}
+
+				if (debounceTimer) clearTimeout(debounceTimer);
+				debounceTimer = setTimeout(() => {
+					debounceTimer = null;
+					flush();
+				}, BATCH_DEBOUNCE_MS);
+			});
+		},
+
+		handleResult(batchId, results) {
+			const batch = pendingBatches.get(batchId);
+			if (!batch) return;
+			pendingBatches.delete(batchId);
+			for (const result of results) {
+				const callbacks = batch.get(result.path);
+				if (!callbacks) continue;
+				fileCache.set(result.path, result.exists);
+				for (const cb of callbacks) cb(result.exists);
+			}
+		},
+	};
+}
+
+/** Options for creating a terminal view */
+export interface TerminalViewOptions {
+	id: TerminalId;
+	runtime: GhosttyRuntime;
+	/** Element the terminal is opened in (also hosts decorations and highlights) */
+	container: HTMLElement;
+	postMessage: PostMessage;
+	fileChecker: FileExistsChecker;
+	getRuntimeConfig: () => RuntimeConfig;
+	/** Scrollback lines (read by ghostty-web only at creation) */
+	scrollback?: number;
+	/** Working directory restored from saved state */
+	cwd?: string;
+	/** Extra shortcuts checked before the default passthrough (true = handled) */
+	onKey?: (event: KeyboardEvent) => boolean;
+	/** Whether the view has a size to fit to (hidden panel tabs don't) */
+	isVisible?: () => boolean;
+	/** Where paste events are caught (defaults to the container) */
+	pasteTarget?: HTMLElement | Document;
+}
+
+/** A single terminal in a webview */
+export interface TerminalView {
+	readonly id: TerminalId;
+	/** Working directory for relative file links (updated by update-cwd) */
+	readonly cwd: string | undefined;
+	readonly cols: number;
+	readonly rows: number;
+	/** Fit to the container and return the new dimensions */
+	fit(): { cols: number; rows: number };
+	focus(): void;
+	showSearch(): void;
+	/** Plain-text lines of the normal screen, for state saving */
+	getScrollbackLines(): string[];
+	/** Write scrollback saved by a previous session (dimmed) */
+	restoreScrollback(lines: string[]): void;
+	/** Handle a message addressed to this terminal */
+	handleMessage(message: ExtensionMessage): void;
+	dispose(): void;
+}
+
+const BELL_FLASH_MS = 150;
+// Higher debounce to reduce ghostty-web resize-while-rendering crashes
+const RESIZE_DEBOUNCE_MS = 150;
+
+// Platform detection (cached at startup)
+const IS_MAC = isMacPlatform(navigator);
+const IS_WINDOWS = isWindowsPlatform(navigator);
+
+/** Create a terminal view and open it in its container */
+export function createTerminalView(options: TerminalViewOptions): TerminalView {
+	const { id, runtime, container, postMessage, fileChecker } = options;
+	const isVisible = options.isVisible ?? (() => true);
+	let cwd = options.cwd;
+
+	function openFile(path: string, line?: number, column?: number): void {
+		postMessage({
+			type: "open-file",
+			terminalId: id,
+			path: resolvePath(path, cwd),
+			line,
+			column,
+		});
+	}
+
+	const termOptions: Record<string, unknown> = {
+		cols: 80,
+		rows: 24,
+		// Handle link clicks by posting message to extension (window.open doesn't work in webviews)
+		onLinkClick: (url: string, event: MouseEvent) => {
+			// Only open links with the configured modifier (Ctrl/Cmd by default)
+			if (!isLinkActivation(event, options.getRuntimeConfig().linkModifier)) {
+				return false;
+			}
+			const fileMatch = url.match(FILE_PATH_PATTERN_SINGLE);
+			if (fileMatch) {
+				const [, filePath, lineStr, colStr] = fileMatch;
+				openFile(
+					filePath,
+					lineStr ? Number.parseInt(lineStr, 10) : undefined,
+					colStr ? Number.parseInt(colStr, 10) : undefined,
+				);
+			} else {
+				postMessage({ type: "open-url", terminalId: id, url });
+			}
+			return true;
+		},
+	};
+	if (runtime.ghostty) termOptions.ghostty = runtime.ghostty;
+	if (options.scrollback !== undefined) {
+		termOptions.scrollback = options.scrollback;
+	}
+
+	const term = new runtime.Terminal(termOptions);
+	// Tell the extension how much output was written (it pauses the PTY if we fall behind)
+	const acknowledgeOutput = createAckCounter((charCount) =>
+		postMessage({ type: "pty-data-ack", terminalId: id, charCount }),
+	);
+	const fitAddon = new runtime.FitAddon();
+	term.loadAddon(fitAddon);
+	term.open(container);
+
+	const isActivation = (event: MouseEvent) =>
+		isLinkActivation(event, options.getRuntimeConfig().linkModifier);
+	// OSC 8 hyperlinks, recorded as output is written (ghostty-web doesn't expose their URIs)
+	const hyperlinks = createHyperlinkProvider(term, {
+		write: (data) => promptNavigator.write(data),
+		isActivation,
+		onActivate: (uri) => {
+			const target = parseHyperlinkTarget(uri);
+			if (target.type === "file") {
+				openFile(target.path, target.line, target.column);
+			} else {
+				postMessage({ type: "open-url", terminalId: id, url: target.url });
+			}
+		},
+		onHover: (uri) => {
+			container.title = uri ?? "";
+		},
+	});
+	if (typeof term.registerLinkProvider === "function") {
+		// OSC 8 hyperlinks; clicks go through the same checks as detected links
+		term.registerLinkProvider(hyperlinks);
+		// Validated file path links, resolved against the current cwd
+		term.registerLinkProvider(
+			createFileLinkProvider(term.buffer, {
+				getCwd: () => cwd,
+				checkFileExists: (path) => fileChecker.check(path, id),
+				onFileClick: openFile,
+				isActivation,
+			}),
+		);
+	}
+
+	// Theme from CSS variables, refreshed when VS Code switches themes
+	term.options.theme = getVSCodeThemeColors();
+	const themeObserver = createThemeObserver((theme) => {
+		term.options.theme = theme;
+	});
+
+	const searchController = createSearchController(term, container);
+	// Track shell integration prompts for navigation and decorations
+	const promptNavigator = createPromptNavigator(term, container);
+
+	// Keybinding passthrough: let VS Code handle Cmd/Ctrl combos
+	term.attachCustomKeyEventHandler(
+		(event: KeyboardEvent): boolean | undefined => {
+			if (isSearchShortcut(event, IS_MAC)) {
+				event.preventDefault();
+				searchController.show();
+				return true;
+			}
+			if (options.onKey?.(event)) {
+				event.preventDefault();
+				return true;
+			}
+			return getKeyHandlerResult(event, IS_MAC, term.hasSelection?.() ?? false);
+		},
+	);
+
+	function sendInput(data: string): void {
+		postMessage({ type: "terminal-input", terminalId: id, data });
+	}
+
+	function sendResize(): void {
+		postMessage({
+			type: "terminal-resize",
+			terminalId: id,
+			cols: term.cols,
+			rows: term.rows,
+		});
+	}
+
+	term.onData(sendInput);
+
+	// Visual bell flash; the extension handles status bar notifications
+	term.onBell(() => {
+		if (options.getRuntimeConfig().bellStyle === "none") return;
+		container.classList.add("bell-flash");
+		setTimeout(() => container.classList.remove("bell-flash"), BELL_FLASH_MS);
+		postMessage({ type: "terminal-bell", terminalId: id });
+	});
+
+	// Re-fit on container resize and notify the PTY
+	// Note: ghostty-web has a known crash during resize while rendering - wrap in try-catch
+	let resizeDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+	const resizeObserver = new ResizeObserver(() => {
+		if (resizeDebounceTimer) clearTimeout(resizeDebounceTimer);
+		resizeDebounceTimer = setTimeout(() => {
+			resizeDebounceTimer = null;
+			if (!isVisible()) return;
+			try {
+				fitAddon.fit();
+				sendResize();
+			} catch (err) {
+				logWebviewError(postMessage, "warn", "Resize error (WASM bug)", err);
+			}
+		}, RESIZE_DEBOUNCE_MS);
+	});
+	resizeObserver.observe(container);
+
+	// Bracketed paste: VS Code webviews may intercept paste events before they
+	// reach the terminal, so paste explicitly. term.paste() wraps the text in
+	// \x1b[200~ ... \x1b[201~ when the shell has enabled mode 2004.
+	const pasteTarget = options.pasteTarget ?? container;
+	const onPaste = (e: Event) => {
+		// Skip input elements (search overlay, tab rename, etc.)
+		const target = e.target as HTMLElement;
+		if (
+			target.tagName === "INPUT" ||
+			target.tagName === "TEXTAREA" ||
+			target.isContentEditable
+		) {
+			return;
+		}
+		const text = (e as ClipboardEvent).clipboardData?.getData("text/plain");
+		if (!text) return;
+
+		e.preventDefault();
+		e.stopPropagation();
+
+		if (typeof term.paste === "function") {
+			term.paste(text);
+		} else if (term.hasBracketedPaste?.()) {
+			sendInput(`\x1b[200~${text}\x1b[201~`);
+		} else {
+			sendInput(text);
+		}
+	};
+	pasteTarget.addEventListener("paste", onPaste);
+
+	// Drag-and-drop files: paste their paths, quoted for the shell
+	container.addEventListener("dragover", (e) => {
+		e.preventDefault();
+		e.stopPropagation();
+		container.classList.add("drag-over");
+	});
+	container.addEventListener("dragleave", (e) => {
+		e.preventDefault();
+		e.stopPropagation();
+		container.classList.remove("drag-over");
+	});
+	container.addEventListener("drop", (e) => {
+		e.preventDefault();
+		e.stopPropagation();
+		container.classList.remove("drag-over");
+
+		const files = e.dataTransfer?.files;
+		if (!files || files.length === 0) return;
+		const paths: string[] = [];
+		for (let i = 0; i < files.length; i++) {
+			// In VS Code webviews, file.path contains the full filesystem path
+			const path = (files[i] as File & { path?: string }).path;
+			if (path) paths.push(quoteShellPath(path, IS_WINDOWS));
+		}
+		if (paths.length > 0) {
+			sendInput(paths.join(" "));
+		}
+	});
+
+	function fitToContainer(): { cols: number; rows: number } {
+		fitAddon.fit();
+		return { cols: term.cols, rows: term.rows };
+	}
+
+	return {
+		id,
+		get cwd() {
+			return cwd;
+		},
+		get cols() {
+			return term.cols;
+		},
+		get rows() {
+			return term.rows;
+		},
+		fit: fitToContainer,
+
+		focus() {
+			term.focus?.();
+		},
+
+		showSearch() {
+			searchController.show();
+		},
+
+		getScrollbackLines() {
+			// Save the normal screen, not a full-screen app's alternate screen
+			return extractScrollbackLines(term.buffer?.normal);
+		},
+
+		restoreScrollback(lines) {
+			if (lines.length > 0) {
+				term.write(formatRestoredScrollback(lines));
+			}
+		},
+
+		handleMessage(message) {
+			switch (message.type) {
+				case "pty-data":
+					hyperlinks.write(message.data);
+					acknowledgeOutput(message.data.length);
+					break;
+				case "pty-exit": {
+					const restart = message.restartable
+						? " \u2014 Press Enter to restart"
+						: "";
+					term.write(
+						`\r\n\x1b[90m[Process exited with code ${message.exitCode}${restart}]\x1b[0m\r\n`,
+					);
+					break;
+				}
+				case "pty-restart":
+					// Soft reset (modes left by the old process), then a rule under its output
+					term.write(`\x1b[!p\x1b[90m${"\u2500".repeat(term.cols)}\x1b[0m\r\n`);
+					break;
+				case "resize":
+					term.resize(message.cols, message.rows);
+					break;
+				case "update-settings":
+					// Hot reload font settings, then refit and notify the PTY
+					if (message.settings.fontFamily !== undefined) {
+						term.options.fontFamily = message.settings.fontFamily;
+					}
+					if (message.settings.fontSize !== undefined) {
+						term.options.fontSize = message.settings.fontSize;
+					}
+					if (isVisible()) {
+						fitToContainer();
+						sendResize();
+					}
+					break;
+				case "update-theme": {
+					// colorCustomizations override the CSS variable colors
+					// Note: existing cell content keeps original colors (terminal limitation)
+					const theme: TerminalTheme = { ...getVSCodeThemeColors() };
+					for (const [key, value] of Object.entries(message.theme)) {
+						if (value !== undefined) {
+							(theme as Record<string, string | undefined>)[key] = value;
+						}
+					}
+					term.options.theme = theme;
+					break;
+				}
+				case "update-cwd":
+					cwd = message.cwd;
+					break;
+				case "show-search":
+					searchController.show();
+					break;
+				case "scroll-to-command":
+					promptNavigator.scrollToPrompt(message.direction);
+					break;
+				case "export-scrollback":
+					postMessage({
+						type: "scrollback-exported",
+						terminalId: id,
+						requestId: message.requestId,
+						content: exportScrollback(
+							term.buffer?.normal,
+							message.format,
+							message.title,
+						),
+					});
+					break;
+			}
+		},
+
+		dispose() {
+			if (resizeDebounceTimer) clearTimeout(resizeDebounceTimer);
+			resizeObserver.disconnect();
+			themeObserver.disconnect();
+			pasteTarget.removeEventListener("paste", onPaste);
+			searchController.destroy();
+			promptNavigator.dispose();
+			term.dispose?.();
+		},
+	};
+}